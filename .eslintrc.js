@@ -276,7 +276,7 @@ const config = {
         "import/no-unused-modules": [
           "error",
           {
-            ignoreExports: ["src/index.ts"],
+            ignoreExports: ["src/index.ts", "src/testing.ts"],
             missingExports: true,
             src: ["src/**/!(*.spec.*)"],
             unusedExports: true,
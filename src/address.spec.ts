@@ -0,0 +1,150 @@
+import { describe, expect, it } from "@jest/globals";
+
+import {
+  normalizeShippingAddress,
+  withNormalizedShippingAddress,
+} from "./address";
+
+describe("normalizeShippingAddress", () => {
+  it("normalizes the country, region and postal code", () => {
+    expect(
+      normalizeShippingAddress({
+        city: "Vancouver",
+        country: " ca",
+        postalCode: " v6b  1a1 ",
+        region: "British Columbia",
+      })
+    ).toStrictEqual({
+      city: "Vancouver",
+      country: "CA",
+      postalCode: "V6B 1A1",
+      region: "BC",
+    });
+  });
+
+  it("converts region names and codes", () => {
+    expect(
+      normalizeShippingAddress({ country: "CA", region: "québec" })
+    ).toHaveProperty("region", "QC");
+    expect(
+      normalizeShippingAddress({ country: "US", region: "ny" })
+    ).toHaveProperty("region", "NY");
+    expect(
+      normalizeShippingAddress({ country: "US", region: "US-CA" })
+    ).toHaveProperty("region", "CA");
+    expect(
+      normalizeShippingAddress({ country: "ca", region: " ca-bc " })
+    ).toHaveProperty("region", "BC");
+  });
+
+  it("only strips the address' own country from codes", () => {
+    expect(
+      normalizeShippingAddress({ country: "US", region: "CA-BC" })
+    ).toBeUndefined();
+    expect(
+      normalizeShippingAddress({ country: "CA", region: "CABC" })
+    ).toBeUndefined();
+  });
+
+  it("ignores case, accents, punctuation and whitespace in names", () => {
+    expect(
+      normalizeShippingAddress({ country: "CA", region: "QUÉBEC" })
+    ).toHaveProperty("region", "QC");
+    expect(
+      normalizeShippingAddress({
+        country: "CA",
+        region: "Prince-Edward Island",
+      })
+    ).toHaveProperty("region", "PE");
+    expect(
+      normalizeShippingAddress({
+        country: "US",
+        region: "district of columbia.",
+      })
+    ).toHaveProperty("region", "DC");
+    expect(
+      normalizeShippingAddress({ country: "US", region: "NewYork" })
+    ).toHaveProperty("region", "NY");
+  });
+
+  it("rejects unknown regions of known countries", () => {
+    expect(
+      normalizeShippingAddress({ country: "US", region: "Ontario" })
+    ).toBeUndefined();
+  });
+
+  it("leaves regions of other countries trimmed", () => {
+    expect(
+      normalizeShippingAddress({ country: "GB", region: " London " })
+    ).toHaveProperty("region", "London");
+  });
+
+  it("uses the given regions", () => {
+    expect(
+      normalizeShippingAddress(
+        { country: "AU", region: "New South Wales" },
+        { regions: { AU: { NSW: "New South Wales" } } }
+      )
+    ).toHaveProperty("region", "NSW");
+  });
+
+  it("adds the given regions to the built-in ones", () => {
+    const options = { regions: { CA: { QC: "Québec", XX: "Somewhere" } } };
+
+    expect(
+      normalizeShippingAddress({ country: "CA", region: "Somewhere" }, options)
+    ).toHaveProperty("region", "XX");
+    expect(
+      normalizeShippingAddress({ country: "CA", region: "Ontario" }, options)
+    ).toHaveProperty("region", "ON");
+    expect(
+      normalizeShippingAddress({ country: "CA", region: "Quebec" }, options)
+    ).toHaveProperty("region", "QC");
+    expect(
+      normalizeShippingAddress({ country: "US", region: "Somewhere" }, options)
+    ).toBeUndefined();
+  });
+
+  it("only allows the allowed countries", () => {
+    const options = { allowedCountries: ["us", "CA"] };
+
+    expect(normalizeShippingAddress({ country: "US" }, options)).toBeDefined();
+    expect(normalizeShippingAddress({ country: "ca" }, options)).toBeDefined();
+    expect(
+      normalizeShippingAddress({ country: "GB" }, options)
+    ).toBeUndefined();
+    expect(
+      normalizeShippingAddress({ country: "GB" }, { allowedCountries: [] })
+    ).toBeUndefined();
+    expect(normalizeShippingAddress({})).toBeUndefined();
+    expect(normalizeShippingAddress({ country: "USA" })).toBeUndefined();
+  });
+});
+
+describe("withNormalizedShippingAddress", () => {
+  it("calls back with the normalized address", async () => {
+    const onShippingAddressChange = jest.fn(() => "success" as const);
+
+    expect(
+      await withNormalizedShippingAddress(onShippingAddressChange)(
+        { country: "us", region: "Texas" },
+        undefined
+      )
+    ).toBe("success");
+    expect(onShippingAddressChange).toHaveBeenCalledWith(
+      { country: "US", region: "TX" },
+      undefined
+    );
+  });
+
+  it("updates with invalid_shipping_address otherwise", async () => {
+    const onShippingAddressChange = jest.fn(() => "success" as const);
+
+    expect(
+      await withNormalizedShippingAddress(onShippingAddressChange, {
+        allowedCountries: ["US"],
+      })({ country: "CA" }, undefined)
+    ).toBe("invalid_shipping_address");
+    expect(onShippingAddressChange).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,240 @@
+import type {
+  MaybePromise,
+  PaymentRequestEventOptions,
+  ShippingResponse,
+} from "./events";
+import type {
+  PaymentRequestShippingAddress,
+  PaymentRequestShippingAddressEvent,
+} from "@stripe/stripe-js";
+
+/**
+ * Region names by their ISO 3166-2 subdivision code (ie "BC"), for each country
+ */
+export type RegionNames = Record<string, Record<string, string>>;
+
+export interface ShippingAddressOptions {
+  /** Two-letter country codes. Addresses in any other country are rejected */
+  allowedCountries?: string[];
+  /** Added to the built-in US & CA regions. Addresses in these countries are rejected unless their region is one of them */
+  regions?: RegionNames;
+}
+
+export interface PaymentRequestShippingAddressEventOptions
+  extends PaymentRequestEventOptions<
+    PaymentRequestShippingAddressEvent,
+    ShippingResponse
+  > {
+  /** Normalizes the address before the callback, updating with invalid_shipping_address instead of calling it when it can't be shipped to */
+  normalizeAddress?: ShippingAddressOptions;
+}
+
+const defaultRegions: RegionNames = {
+  CA: {
+    AB: "Alberta",
+    BC: "British Columbia",
+    MB: "Manitoba",
+    NB: "New Brunswick",
+    NL: "Newfoundland and Labrador",
+    NS: "Nova Scotia",
+    NT: "Northwest Territories",
+    NU: "Nunavut",
+    ON: "Ontario",
+    PE: "Prince Edward Island",
+    QC: "Quebec",
+    SK: "Saskatchewan",
+    YT: "Yukon",
+  },
+  US: {
+    AA: "Armed Forces Americas",
+    AE: "Armed Forces Europe",
+    AK: "Alaska",
+    AL: "Alabama",
+    AP: "Armed Forces Pacific",
+    AR: "Arkansas",
+    AS: "American Samoa",
+    AZ: "Arizona",
+    CA: "California",
+    CO: "Colorado",
+    CT: "Connecticut",
+    DC: "District of Columbia",
+    DE: "Delaware",
+    FL: "Florida",
+    GA: "Georgia",
+    GU: "Guam",
+    HI: "Hawaii",
+    IA: "Iowa",
+    ID: "Idaho",
+    IL: "Illinois",
+    IN: "Indiana",
+    KS: "Kansas",
+    KY: "Kentucky",
+    LA: "Louisiana",
+    MA: "Massachusetts",
+    MD: "Maryland",
+    ME: "Maine",
+    MI: "Michigan",
+    MN: "Minnesota",
+    MO: "Missouri",
+    MP: "Northern Mariana Islands",
+    MS: "Mississippi",
+    MT: "Montana",
+    NC: "North Carolina",
+    ND: "North Dakota",
+    NE: "Nebraska",
+    NH: "New Hampshire",
+    NJ: "New Jersey",
+    NM: "New Mexico",
+    NV: "Nevada",
+    NY: "New York",
+    OH: "Ohio",
+    OK: "Oklahoma",
+    OR: "Oregon",
+    PA: "Pennsylvania",
+    PR: "Puerto Rico",
+    RI: "Rhode Island",
+    SC: "South Carolina",
+    SD: "South Dakota",
+    TN: "Tennessee",
+    TX: "Texas",
+    UM: "United States Minor Outlying Islands",
+    UT: "Utah",
+    VA: "Virginia",
+    VI: "Virgin Islands",
+    VT: "Vermont",
+    WA: "Washington",
+    WI: "Wisconsin",
+    WV: "West Virginia",
+    WY: "Wyoming",
+  },
+};
+
+// Ignores case, accents, punctuation and whitespace, so "Québec" matches "Quebec"
+const toKey = (name: string) =>
+  name
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]/gu, "");
+
+const normalizeRegion = (
+  region: string,
+  country: string,
+  regions: Record<string, string> | undefined
+) => {
+  const trimmed = region.trim();
+
+  if (!regions) {
+    return trimmed;
+  }
+
+  // Codes can be given with their country, ie "CA-BC"
+  const code = trimmed.toUpperCase().replace(`${country}-`, "");
+
+  return code in regions
+    ? code
+    : Object.keys(regions).find(
+        (other) => toKey(regions[other] ?? "") === toKey(trimmed)
+      );
+};
+
+/**
+ * The address with an uppercase country, its region's ISO 3166-2 subdivision code (ie "BC" for "British Columbia") and a trimmed, uppercase postal code. Undefined when it can't be shipped to.
+ * Regions are only converted in the countries regions are known for, the others are left trimmed.
+ *
+ * @example
+ *
+ * normalizeShippingAddress({ country: "ca", postalCode: " v6b ", region: "British Columbia" }, { allowedCountries: ["CA", "US"] });
+ * // { country: "CA", postalCode: "V6B", region: "BC" }
+ */
+export const normalizeShippingAddress = (
+  shippingAddress: PaymentRequestShippingAddress,
+  { allowedCountries, regions = {} }: ShippingAddressOptions = {}
+): PaymentRequestShippingAddress | undefined => {
+  const country = shippingAddress.country?.trim().toUpperCase();
+
+  if (
+    !country ||
+    !/^[A-Z]{2}$/u.test(country) ||
+    (allowedCountries &&
+      !allowedCountries.some((other) => other.toUpperCase() === country))
+  ) {
+    return undefined;
+  }
+
+  const countryRegions = (defaultRegions[country] ?? regions[country]) && {
+    ...defaultRegions[country],
+    ...regions[country],
+  };
+  const region =
+    shippingAddress.region &&
+    normalizeRegion(shippingAddress.region, country, countryRegions);
+
+  if (region === undefined && shippingAddress.region) {
+    return undefined;
+  }
+
+  const postalCode = shippingAddress.postalCode
+    ?.trim()
+    .toUpperCase()
+    .replace(/\s+/gu, " ");
+
+  return {
+    ...shippingAddress,
+    country,
+    ...(postalCode !== undefined && { postalCode }),
+    ...(region !== undefined && { region }),
+  };
+};
+
+/**
+ * A shipping address callback that's only called with normalized addresses, updating with `invalid_shipping_address` for the others
+ *
+ * @example
+ *
+ * usePaymentRequestShippingAddress(
+ *   paymentRequest,
+ *   options,
+ *   withNormalizedShippingAddress(getShippingRates, { allowedCountries: ["US"] })
+ * );
+ */
+export const withNormalizedShippingAddress =
+  <Context>(
+    onShippingAddressChange: (
+      shippingAddress: PaymentRequestShippingAddress,
+      context: Context
+    ) => MaybePromise<ShippingResponse>,
+    options?: ShippingAddressOptions
+  ) =>
+  (
+    shippingAddress: PaymentRequestShippingAddress,
+    context: Context
+  ): MaybePromise<ShippingResponse> => {
+    const normalized = normalizeShippingAddress(shippingAddress, options);
+
+    return normalized
+      ? onShippingAddressChange(normalized, context)
+      : "invalid_shipping_address";
+  };
+
+/**
+ * The shippingaddresschange callback of a shipping address callback, normalizing its addresses with the event options' normalizeAddress
+ */
+export const getShippingAddressEventCallback = <Context>(
+  onShippingAddressChange: (
+    shippingAddress: PaymentRequestShippingAddress,
+    context: Context
+  ) => MaybePromise<ShippingResponse>,
+  { normalizeAddress }: PaymentRequestShippingAddressEventOptions = {}
+) => {
+  const callback = normalizeAddress
+    ? withNormalizedShippingAddress(onShippingAddressChange, normalizeAddress)
+    : onShippingAddressChange;
+
+  return (
+    {
+      shippingAddress,
+    }: Pick<PaymentRequestShippingAddressEvent, "shippingAddress">,
+    context: Context
+  ) => callback(shippingAddress, context);
+};
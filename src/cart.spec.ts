@@ -0,0 +1,275 @@
+import { describe, expect, it } from "@jest/globals";
+
+import { assertDetailsAddUp, getCartDetails, withShippingOption } from "./cart";
+
+const ground = {
+  amount: 500,
+  detail: "5-7 days",
+  id: "ground",
+  label: "Ground",
+};
+const express = {
+  amount: 1500,
+  detail: "1 day",
+  id: "express",
+  label: "Express",
+};
+const shippingOptions = [ground, express];
+
+describe("getCartDetails", () => {
+  it("multiplies items by their quantity", () => {
+    expect(
+      getCartDetails({
+        items: [
+          { amount: 250, label: "Sticker", quantity: 3 },
+          { amount: 1000, label: "Shirt" },
+        ],
+      })
+    ).toStrictEqual({
+      displayItems: [
+        { amount: 750, label: "Sticker × 3" },
+        { amount: 1000, label: "Shirt" },
+      ],
+      shippingOptions: [],
+      total: { amount: 1750, label: "Total" },
+    });
+  });
+
+  it("subtracts discounts and adds taxes", () => {
+    expect(
+      getCartDetails({
+        discounts: [{ amount: 200, label: "SUMMER" }],
+        items: [{ amount: 1000, label: "Shirt" }],
+        taxes: [{ amount: 64, label: "Sales tax", pending: true }],
+        totalLabel: "Due today",
+      })
+    ).toStrictEqual({
+      displayItems: [
+        { amount: 1000, label: "Shirt" },
+        { amount: -200, label: "SUMMER" },
+        { amount: 64, label: "Sales tax", pending: true },
+      ],
+      shippingOptions: [],
+      total: { amount: 864, label: "Due today", pending: true },
+    });
+  });
+
+  it("adds the first shipping option by default", () => {
+    expect(
+      getCartDetails({
+        items: [{ amount: 1000, label: "Shirt" }],
+        shippingOptions,
+      })
+    ).toStrictEqual({
+      displayItems: [
+        { amount: 1000, label: "Shirt" },
+        { amount: 500, label: "Ground" },
+      ],
+      shippingOptions,
+      total: { amount: 1500, label: "Total" },
+    });
+  });
+
+  it("adds the selected shipping option and lists it first", () => {
+    expect(
+      getCartDetails({
+        items: [{ amount: 1000, label: "Shirt" }],
+        shippingOption: shippingOptions[1],
+        shippingOptions,
+      })
+    ).toStrictEqual({
+      displayItems: [
+        { amount: 1000, label: "Shirt" },
+        { amount: 1500, label: "Express" },
+      ],
+      shippingOptions: [shippingOptions[1], shippingOptions[0]],
+      total: { amount: 2500, label: "Total" },
+    });
+  });
+
+  it("throws for a shipping option that isn't offered", () => {
+    expect(() =>
+      getCartDetails({
+        items: [{ amount: 1000, label: "Shirt" }],
+        shippingOption: { amount: 0, detail: "", id: "pickup", label: "" },
+        shippingOptions,
+      })
+    ).toThrow("pickup isn't one of the cart's shippingOptions");
+  });
+
+  it("throws for fractional amounts", () => {
+    expect(() =>
+      getCartDetails({ items: [{ amount: 9.99, label: "Shirt" }] })
+    ).toThrow("Shirt has to be an integer amount of minor units, not 9.99");
+  });
+
+  it("throws for invalid quantities", () => {
+    expect(() =>
+      getCartDetails({ items: [{ amount: 1000, label: "Shirt", quantity: 0 }] })
+    ).toThrow("Shirt has to have a positive integer quantity, not 0");
+  });
+
+  it("throws for a negative total", () => {
+    expect(() =>
+      getCartDetails({
+        discounts: [{ amount: 2000, label: "Too generous" }],
+        items: [{ amount: 1000, label: "Shirt" }],
+      })
+    ).toThrow("Total can't be negative, it's -1000");
+  });
+
+  it("takes percentage & amount promotions off the items, in order", () => {
+    expect(
+      getCartDetails({
+        items: [{ amount: 1000, label: "Shirt" }],
+        promotions: [
+          { amountOff: 200, code: "SAVE2", label: "$2 off", type: "amount" },
+          { label: "10% off", percentOff: 10, type: "percentage" },
+        ],
+        shippingOptions,
+      })
+    ).toStrictEqual({
+      displayItems: [
+        { amount: 1000, label: "Shirt" },
+        { amount: -200, label: "$2 off (SAVE2)" },
+        { amount: -80, label: "10% off" },
+        { amount: 500, label: "Ground" },
+      ],
+      shippingOptions,
+      total: { amount: 1220, label: "Total" },
+    });
+  });
+
+  it("never takes more than the items off", () => {
+    expect(
+      getCartDetails({
+        items: [{ amount: 1000, label: "Shirt" }],
+        promotions: [
+          { amountOff: 1500, label: "Too generous", type: "amount" },
+          { label: "10% off", percentOff: 10, type: "percentage" },
+        ],
+        shippingOptions,
+      }).displayItems
+    ).toStrictEqual([
+      { amount: 1000, label: "Shirt" },
+      { amount: -1000, label: "Too generous" },
+      { amount: 500, label: "Ground" },
+    ]);
+  });
+
+  it("zeroes the shipping options free shipping is for", () => {
+    expect(
+      getCartDetails({
+        items: [{ amount: 1000, label: "Shirt" }],
+        promotions: [
+          {
+            label: "Free shipping",
+            shippingOptionIds: ["ground"],
+            type: "freeShipping",
+          },
+        ],
+        // As the sheet gives it back, already free
+        shippingOption: { ...ground, amount: 0 },
+        shippingOptions,
+      })
+    ).toStrictEqual({
+      displayItems: [
+        { amount: 1000, label: "Shirt" },
+        { amount: 500, label: "Ground" },
+        { amount: -500, label: "Free shipping" },
+      ],
+      shippingOptions: [{ ...ground, amount: 0 }, express],
+      total: { amount: 1000, label: "Total" },
+    });
+    expect(
+      getCartDetails({
+        items: [{ amount: 1000, label: "Shirt" }],
+        promotions: [
+          {
+            label: "Free shipping",
+            shippingOptionIds: ["ground"],
+            type: "freeShipping",
+          },
+        ],
+        shippingOption: express,
+        shippingOptions,
+      }).total
+    ).toStrictEqual({ amount: 2500, label: "Total" });
+  });
+
+  it("takes gift cards off the rest of the total", () => {
+    expect(
+      getCartDetails({
+        items: [{ amount: 1000, label: "Shirt" }],
+        promotions: [
+          { balance: 1000, label: "Gift card ••1234", type: "giftCard" },
+          { balance: 5000, label: "Gift card ••5678", type: "giftCard" },
+          { balance: 5000, label: "Gift card ••9012", type: "giftCard" },
+        ],
+        shippingOptions,
+        taxes: [{ amount: 130, label: "Tax" }],
+      })
+    ).toStrictEqual({
+      displayItems: [
+        { amount: 1000, label: "Shirt" },
+        { amount: 130, label: "Tax" },
+        { amount: 500, label: "Ground" },
+        { amount: -1000, label: "Gift card ••1234" },
+        { amount: -630, label: "Gift card ••5678" },
+      ],
+      shippingOptions,
+      total: { amount: 0, label: "Total" },
+    });
+  });
+});
+
+describe("assertDetailsAddUp", () => {
+  it("passes when the displayItems add up", () => {
+    expect(() =>
+      assertDetailsAddUp({
+        displayItems: [
+          { amount: 75, label: "An Item" },
+          { amount: 25, label: "Shipping" },
+        ],
+        total: { amount: 100, label: "Total" },
+      })
+    ).not.toThrow();
+  });
+
+  it("throws when the displayItems don't add up", () => {
+    expect(() =>
+      assertDetailsAddUp({
+        displayItems: [{ amount: 75, label: "An Item" }],
+        total: { amount: 100, label: "Total" },
+      })
+    ).toThrow("displayItems add up to 75, not Total's 100");
+  });
+});
+
+describe("withShippingOption", () => {
+  it("adds the shipping option to displayItems and total", () => {
+    expect(
+      withShippingOption(
+        {
+          currency: "usd",
+          displayItems: [{ amount: 1000, label: "Shirt" }],
+          total: { amount: 1000, label: "Total" },
+        },
+        shippingOptions[1]
+      )
+    ).toStrictEqual({
+      currency: "usd",
+      displayItems: [
+        { amount: 1000, label: "Shirt" },
+        { amount: 1500, label: "Express" },
+      ],
+      total: { amount: 2500, label: "Total" },
+    });
+  });
+
+  it("leaves details without a shipping option", () => {
+    const details = { total: { amount: 1000, label: "Total" } };
+
+    expect(withShippingOption(details, undefined)).toBe(details);
+  });
+});
@@ -0,0 +1,262 @@
+import { sumBy } from "lodash/fp";
+
+import type {
+  PaymentRequestItem,
+  PaymentRequestShippingOption,
+} from "@stripe/stripe-js";
+
+/**
+ * Every amount is an integer in the currency's minor unit (ie cents)
+ */
+export interface CartItem {
+  /** Price of a single unit */
+  amount: number;
+  label: string;
+  pending?: boolean;
+  /** Defaults to 1 */
+  quantity?: number;
+}
+
+export interface CartLine {
+  /** Positive, discounts are subtracted */
+  amount: number;
+  label: string;
+  pending?: boolean;
+}
+
+/**
+ * Applied before the sheet opens, since wallets can't take promo codes. Each is listed as a negative line:
+ * - percentage & amount: off the items, never more than what's left of them
+ * - freeShipping: zeroes the shipping options it's for (every one by default) and offsets the selected one's line
+ * - giftCard: a stored-value balance, taken off whatever's left of the total after taxes & shipping
+ */
+export type Promotion = {
+  /** The promo code, shown after the label */
+  code?: string;
+  label: string;
+} & (
+  | { amountOff: number; type: "amount" }
+  | { balance: number; type: "giftCard" }
+  | { percentOff: number; type: "percentage" }
+  | { shippingOptionIds?: string[]; type: "freeShipping" }
+);
+
+export interface Cart {
+  discounts?: CartLine[];
+  items: CartItem[];
+  /** Applied in order, after discounts */
+  promotions?: Promotion[];
+  /** Defaults to the first of shippingOptions */
+  shippingOption?: PaymentRequestShippingOption;
+  shippingOptions?: PaymentRequestShippingOption[];
+  taxes?: CartLine[];
+  /** Defaults to "Total" */
+  totalLabel?: string;
+}
+
+const isFreeShipping = (
+  promotion: Promotion,
+  shippingOption: PaymentRequestShippingOption
+) =>
+  promotion.type === "freeShipping" &&
+  (!promotion.shippingOptionIds ||
+    promotion.shippingOptionIds.includes(shippingOption.id));
+
+// Each promotion takes what it can off the amount that's left, so the total can't go below zero
+const getPromotionLines = (
+  promotions: Promotion[],
+  amount: number,
+  getAmountOff: (promotion: Promotion, left: number) => number
+) =>
+  promotions.reduce<PaymentRequestItem[]>((lines, promotion) => {
+    const left = amount + sumBy("amount", lines);
+    const amountOff = Math.min(getAmountOff(promotion, left), left);
+
+    return amountOff <= 0
+      ? lines
+      : [
+          ...lines,
+          {
+            amount: -amountOff,
+            label: !promotion.code
+              ? promotion.label
+              : `${promotion.label} (${promotion.code})`,
+          },
+        ];
+  }, []);
+
+const assertMinorUnits = (amount: number, label: string) => {
+  if (!Number.isInteger(amount)) {
+    throw new Error(
+      `${label} has to be an integer amount of minor units, not ${amount}`
+    );
+  }
+};
+
+/**
+ * Throws unless the displayItems add up to the total, for details that weren't made with getCartDetails
+ */
+export const assertDetailsAddUp = ({
+  displayItems = [],
+  total,
+}: {
+  displayItems?: PaymentRequestItem[];
+  total: PaymentRequestItem;
+}) => {
+  displayItems.map(({ amount, label }) => assertMinorUnits(amount, label));
+  assertMinorUnits(total.amount, total.label);
+
+  const sum = sumBy("amount", displayItems);
+
+  if (sum !== total.amount) {
+    throw new Error(
+      `displayItems add up to ${sum}, not ${total.label}'s ${total.amount}`
+    );
+  }
+};
+
+/**
+ * displayItems, shippingOptions & total that agree with each other, for usePaymentRequest & the shipping hooks.
+ * The selected shipping option is listed first, since that's the one the sheet shows as selected.
+ *
+ * @example
+ *
+ * const details = getCartDetails({ items, shippingOption, shippingOptions, taxes });
+ *
+ * usePaymentRequest(stripe, { country: "US", currency: "usd", ...details });
+ */
+export const getCartDetails = ({
+  discounts = [],
+  items,
+  promotions = [],
+  shippingOption: selectedShippingOption,
+  shippingOptions = [],
+  taxes = [],
+  totalLabel = "Total",
+}: Cart) => {
+  const selectedId = (selectedShippingOption ?? shippingOptions[0])?.id;
+  // The cart's own, not a free one the sheet handed back
+  const shippingOption = shippingOptions.find(({ id }) => id === selectedId);
+
+  if (selectedId !== undefined && !shippingOption) {
+    throw new Error(`${selectedId} isn't one of the cart's shippingOptions`);
+  }
+
+  const merchandise: PaymentRequestItem[] = [
+    ...items.map(({ amount, label, pending, quantity = 1 }) => {
+      if (!Number.isInteger(quantity) || quantity < 1) {
+        throw new Error(
+          `${label} has to have a positive integer quantity, not ${quantity}`
+        );
+      }
+
+      return {
+        amount: amount * quantity,
+        label: quantity === 1 ? label : `${label} × ${quantity}`,
+        ...(pending && { pending }),
+      };
+    }),
+    ...discounts.map(({ amount, label, pending }) => ({
+      amount: -amount,
+      label,
+      ...(pending && { pending }),
+    })),
+  ];
+  const discounted: PaymentRequestItem[] = [
+    ...merchandise,
+    ...getPromotionLines(
+      promotions,
+      sumBy("amount", merchandise),
+      (promotion, left) => {
+        if (promotion.type === "amount") {
+          return promotion.amountOff;
+        }
+
+        return promotion.type === "percentage"
+          ? Math.round((left * promotion.percentOff) / 100)
+          : 0;
+      }
+    ),
+  ];
+  const freeShipping =
+    shippingOption &&
+    promotions.find((promotion) => isFreeShipping(promotion, shippingOption));
+  const charged: PaymentRequestItem[] = [
+    ...discounted,
+    ...taxes.map(({ amount, label, pending }) => ({
+      amount,
+      label,
+      ...(pending && { pending }),
+    })),
+    ...(!shippingOption
+      ? []
+      : [{ amount: shippingOption.amount, label: shippingOption.label }]),
+    ...(!shippingOption || !freeShipping
+      ? []
+      : getPromotionLines(
+          [freeShipping],
+          shippingOption.amount,
+          () => shippingOption.amount
+        )),
+  ];
+  const displayItems: PaymentRequestItem[] = [
+    ...charged,
+    ...getPromotionLines(promotions, sumBy("amount", charged), (promotion) =>
+      promotion.type === "giftCard" ? promotion.balance : 0
+    ),
+  ];
+  const offeredShippingOptions = shippingOptions.map((option) =>
+    promotions.some((promotion) => isFreeShipping(promotion, option))
+      ? { ...option, amount: 0 }
+      : option
+  );
+
+  const total: PaymentRequestItem = {
+    amount: sumBy("amount", displayItems),
+    label: totalLabel,
+    ...(displayItems.some(({ pending }) => pending) && { pending: true }),
+  };
+
+  if (total.amount < 0) {
+    throw new Error(`${totalLabel} can't be negative, it's ${total.amount}`);
+  }
+
+  assertDetailsAddUp({ displayItems, total });
+
+  return {
+    displayItems,
+    shippingOptions: [
+      ...offeredShippingOptions.filter(({ id }) => id === selectedId),
+      ...offeredShippingOptions.filter(({ id }) => id !== selectedId),
+    ],
+    total,
+  };
+};
+
+/**
+ * Adds the shipping option's line to displayItems and its amount to the total, for details that don't include shipping yet
+ */
+export const withShippingOption = <
+  Details extends {
+    displayItems?: PaymentRequestItem[];
+    total?: PaymentRequestItem;
+  }
+>(
+  details: Details,
+  shippingOption: PaymentRequestShippingOption | undefined
+): Details =>
+  !shippingOption
+    ? details
+    : {
+        ...details,
+        displayItems: [
+          ...(details.displayItems ?? []),
+          { amount: shippingOption.amount, label: shippingOption.label },
+        ],
+        ...(details.total && {
+          total: {
+            ...details.total,
+            amount: details.total.amount + shippingOption.amount,
+          },
+        }),
+      };
@@ -0,0 +1,657 @@
+import EventEmitter from "events";
+
+import { beforeEach, describe, expect, it } from "@jest/globals";
+
+import { createPaymentRequestController } from "./controller";
+
+import type {
+  PaymentRequestController,
+  PaymentRequestControllerState,
+} from "./controller";
+import type { PaymentRequestPaymentContext } from "./events";
+import type {
+  CanMakePaymentResult,
+  PaymentRequest,
+  PaymentRequestCompleteStatus,
+  PaymentRequestOptions,
+  PaymentRequestPaymentMethodEvent,
+  PaymentRequestShippingAddressEvent,
+  PaymentRequestShippingOptionEvent,
+  PaymentRequestUpdateDetails,
+  Stripe,
+} from "@stripe/stripe-js";
+
+const options: PaymentRequestOptions = {
+  country: "US",
+  currency: "cad",
+  displayItems: [{ amount: 75, label: "An Item" }],
+  shippingOptions: [
+    {
+      amount: 25,
+      detail: "This is shipping",
+      id: "shipping",
+      label: "Shipping",
+    },
+  ],
+  total: {
+    amount: 100,
+    label: "Total",
+  },
+};
+let canMakePayment: jest.Mock<Promise<CanMakePaymentResult | null>, []>;
+let paymentRequest: PaymentRequest;
+let paymentRequestEmitter: EventEmitter;
+let stripe: Stripe;
+
+const nextState = async (controller: PaymentRequestController) =>
+  new Promise<PaymentRequestControllerState>((resolve) => {
+    const unsubscribe = controller.subscribe((state) => {
+      unsubscribe();
+      resolve(state);
+    });
+  });
+
+const shippingAddressEvent = () => {
+  const updateWith = jest.fn<void, [PaymentRequestUpdateDetails]>();
+  const updated = new Promise<PaymentRequestUpdateDetails>((resolve) => {
+    updateWith.mockImplementation(resolve);
+  });
+
+  return {
+    event: {
+      shippingAddress: { country: "US" },
+      updateWith,
+    } as unknown as PaymentRequestShippingAddressEvent,
+    updated,
+  };
+};
+
+beforeEach(() => {
+  canMakePayment = jest.fn(async () => Promise.resolve({}));
+  (paymentRequestEmitter as EventEmitter | undefined)?.removeAllListeners();
+  paymentRequestEmitter = new EventEmitter();
+
+  paymentRequest = {
+    abort: jest.fn(),
+    canMakePayment,
+    isShowing: jest.fn(() => false),
+    off: jest.fn(paymentRequestEmitter.off.bind(paymentRequestEmitter)),
+    on: jest.fn(paymentRequestEmitter.on.bind(paymentRequestEmitter)),
+    show: jest.fn(),
+    update: jest.fn(),
+  } as unknown as PaymentRequest;
+
+  stripe = {
+    paymentRequest: jest.fn(() => paymentRequest),
+  } as unknown as Stripe;
+});
+
+describe("createPaymentRequestController", () => {
+  it("creates the paymentRequest with dummy values", () => {
+    const controller = createPaymentRequestController(stripe, options);
+
+    expect(controller.paymentRequest).toBe(paymentRequest);
+    expect(stripe.paymentRequest).toHaveBeenCalledWith({
+      country: "US",
+      currency: "usd",
+      displayItems: [],
+      shippingOptions: [],
+      total: { amount: 0, label: "Total", pending: true },
+    });
+  });
+
+  it("creates the paymentRequest with the total's label", () => {
+    createPaymentRequestController(stripe, {
+      ...options,
+      total: { amount: 100, label: "Gesamt" },
+    });
+
+    expect(stripe.paymentRequest).toHaveBeenCalledWith(
+      expect.objectContaining({
+        total: { amount: 0, label: "Gesamt", pending: true },
+      })
+    );
+  });
+
+  it("checks canMakePayment", async () => {
+    const controller = createPaymentRequestController(stripe, options);
+
+    expect(controller.getState()).toStrictEqual({
+      canMakePayment: { loading: true },
+      open: false,
+      shippingOption: options.shippingOptions?.[0],
+      status: "checking",
+    });
+
+    const state = await nextState(controller);
+
+    expect(state).toStrictEqual({
+      canMakePayment: { loading: false, value: {} },
+      open: false,
+      shippingOption: options.shippingOptions?.[0],
+      status: "ready",
+    });
+    expect(controller.getState()).toBe(state);
+  });
+
+  it("is unsupported without a wallet", async () => {
+    canMakePayment.mockImplementation(async () => Promise.resolve(null));
+    const controller = createPaymentRequestController(stripe, options);
+
+    expect(await nextState(controller)).toHaveProperty("status", "unsupported");
+  });
+
+  it("calls listeners with the previous state", async () => {
+    const controller = createPaymentRequestController(stripe, options);
+    const listener = jest.fn();
+
+    controller.subscribe(listener);
+    await nextState(controller);
+
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ status: "ready" }),
+      expect.objectContaining({ status: "checking" })
+    );
+  });
+
+  it("opens with the latest details", async () => {
+    const controller = createPaymentRequestController(stripe, options);
+
+    await nextState(controller);
+    controller.update({ ...options, total: { amount: 200, label: "Total" } });
+    controller.setOpen(true);
+
+    expect(paymentRequest.update).toHaveBeenCalledWith({
+      currency: "cad",
+      displayItems: options.displayItems,
+      shippingOptions: options.shippingOptions,
+      total: { amount: 200, label: "Total" },
+    });
+    expect(paymentRequest.show).toHaveBeenCalledTimes(1);
+    expect(controller.getState()).toHaveProperty("status", "showing");
+  });
+
+  it("follows a sheet something else shows", async () => {
+    const controller = createPaymentRequestController(stripe, options);
+
+    await nextState(controller);
+    controller.update({ ...options, total: { amount: 200, label: "Total" } });
+    controller.markOpen();
+
+    expect(paymentRequest.update).toHaveBeenCalledWith(
+      expect.objectContaining({ total: { amount: 200, label: "Total" } })
+    );
+    expect(paymentRequest.show).not.toHaveBeenCalled();
+    expect(controller.getState()).toHaveProperty("status", "showing");
+  });
+
+  it("doesn't open while checking", () => {
+    const controller = createPaymentRequestController(stripe, options);
+
+    controller.setOpen(true);
+
+    expect(paymentRequest.show).not.toHaveBeenCalled();
+  });
+
+  it("closes on cancel", async () => {
+    const controller = createPaymentRequestController(stripe, options);
+
+    await nextState(controller);
+    controller.setOpen(true);
+    paymentRequestEmitter.emit("cancel");
+
+    expect(controller.getState()).toHaveProperty("open", false);
+    expect(controller.getState()).toHaveProperty("status", "cancelled");
+  });
+
+  it("updates shipping events with the controller's details", async () => {
+    const controller = createPaymentRequestController(stripe, options);
+    const { event, updated } = shippingAddressEvent();
+
+    controller.onShippingAddressChange(() => "success");
+    paymentRequestEmitter.emit("shippingaddresschange", event);
+
+    expect(await updated).toStrictEqual({
+      displayItems: options.displayItems,
+      shippingOptions: options.shippingOptions,
+      status: "success",
+      total: options.total,
+    });
+  });
+
+  it("completes payment events and follows their status", async () => {
+    const controller = createPaymentRequestController(stripe, options);
+    const onPaymentMethod = jest.fn(() => "success" as const);
+
+    await nextState(controller);
+    controller.onPaymentMethod(onPaymentMethod);
+    controller.setOpen(true);
+    const payment = new Promise((resolve) => {
+      paymentRequestEmitter.emit("paymentmethod", {
+        complete: resolve,
+        paymentMethod: { id: "pm_1" },
+      } as unknown as PaymentRequestPaymentMethodEvent);
+    });
+
+    expect(controller.getState()).toHaveProperty("status", "processing");
+    expect(await payment).toBe("success");
+    expect(onPaymentMethod).toHaveBeenCalledTimes(1);
+    expect(onPaymentMethod).toHaveBeenCalledWith(
+      { paymentMethod: { id: "pm_1" } },
+      { idempotencyKey: expect.any(String), signal: expect.any(AbortSignal) }
+    );
+    expect(controller.getState()).toHaveProperty("status", "succeeded");
+    expect(controller.getState()).toHaveProperty("open", false);
+  });
+
+  it("resolves requestPayment with the payment event", async () => {
+    const controller = createPaymentRequestController(stripe, options);
+
+    await nextState(controller);
+    const result = controller.requestPayment();
+    const event = {
+      complete: jest.fn(),
+      paymentMethod: { id: "pm_1" },
+    } as unknown as PaymentRequestPaymentMethodEvent;
+
+    paymentRequestEmitter.emit("paymentmethod", event);
+
+    expect(await result).toStrictEqual({
+      event: { ...event, complete: expect.any(Function) },
+      type: "paymentmethod",
+    });
+  });
+
+  it("warns about amounts whenever the details change", () => {
+    const onAmountWarning = jest.fn();
+    const controller = createPaymentRequestController(
+      stripe,
+      { ...options, total: { amount: 99.5, label: "Total" } },
+      { onAmountWarning }
+    );
+
+    expect(onAmountWarning).toHaveBeenCalledWith(
+      "Total has to be an integer amount of minor units, not 99.5"
+    );
+
+    controller.update({ ...options, total: { amount: 99.5, label: "Total" } });
+
+    expect(onAmountWarning).toHaveBeenCalledTimes(1);
+
+    controller.update({ ...options, total: { amount: 0.5, label: "Total" } });
+
+    expect(onAmountWarning).toHaveBeenCalledTimes(2);
+  });
+
+  it("removes its listeners and subscriptions once destroyed", async () => {
+    const controller = createPaymentRequestController(stripe, options);
+    const listener = jest.fn();
+
+    controller.subscribe(listener);
+    controller.onShippingAddressChange(() => "success");
+    controller.onPaymentMethod(() => "success");
+    controller.destroy();
+    await canMakePayment.mock.results[0]?.value;
+
+    expect(paymentRequestEmitter.eventNames()).toHaveLength(0);
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
+
+describe("live updates", () => {
+  it("applies the details once they stop changing", () => {
+    const controller = createPaymentRequestController(stripe, options);
+
+    jest.runOnlyPendingTimers();
+
+    expect(paymentRequest.update).toHaveBeenCalledTimes(1);
+    expect(paymentRequest.update).toHaveBeenLastCalledWith({
+      currency: "cad",
+      displayItems: options.displayItems,
+      shippingOptions: options.shippingOptions,
+      total: options.total,
+    });
+
+    controller.update({ ...options, total: { amount: 150, label: "Total" } });
+    controller.update({ ...options, total: { amount: 200, label: "Total" } });
+
+    expect(paymentRequest.update).toHaveBeenCalledTimes(1);
+
+    jest.runOnlyPendingTimers();
+
+    expect(paymentRequest.update).toHaveBeenCalledTimes(2);
+    expect(paymentRequest.update).toHaveBeenLastCalledWith(
+      expect.objectContaining({ total: { amount: 200, label: "Total" } })
+    );
+  });
+
+  it("doesn't apply the same details again", () => {
+    const controller = createPaymentRequestController(stripe, options);
+
+    jest.runOnlyPendingTimers();
+    controller.update({
+      ...options,
+      displayItems: options.displayItems?.map((item) => ({ ...item })),
+    });
+    jest.runOnlyPendingTimers();
+
+    expect(paymentRequest.update).toHaveBeenCalledTimes(1);
+  });
+
+  it("waits for the sheet to close", async () => {
+    const controller = createPaymentRequestController(stripe, options);
+
+    await nextState(controller);
+    controller.setOpen(true);
+    jest.mocked(paymentRequest.isShowing).mockReturnValue(true);
+    controller.update({ ...options, total: { amount: 200, label: "Total" } });
+    jest.runOnlyPendingTimers();
+
+    expect(paymentRequest.update).toHaveBeenCalledTimes(1);
+
+    jest.mocked(paymentRequest.isShowing).mockReturnValue(false);
+    paymentRequestEmitter.emit("cancel");
+    jest.runOnlyPendingTimers();
+
+    expect(paymentRequest.update).toHaveBeenCalledTimes(2);
+    expect(paymentRequest.update).toHaveBeenLastCalledWith(
+      expect.objectContaining({ total: { amount: 200, label: "Total" } })
+    );
+  });
+
+  it("doesn't apply the details once destroyed", () => {
+    const controller = createPaymentRequestController(stripe, options);
+
+    controller.destroy();
+    jest.runOnlyPendingTimers();
+
+    expect(paymentRequest.update).not.toHaveBeenCalled();
+  });
+});
+
+describe("shipping option", () => {
+  const ground = {
+    amount: 500,
+    detail: "5-7 days",
+    id: "ground",
+    label: "Ground",
+  };
+  const express = {
+    amount: 1500,
+    detail: "1 day",
+    id: "express",
+    label: "Express",
+  };
+  const shippingOptions = [ground, express];
+  const shippingOptionEvent = (
+    shippingOption: PaymentRequestShippingOptionEvent["shippingOption"]
+  ) => {
+    const updateWith = jest.fn<void, [PaymentRequestUpdateDetails]>();
+    const updated = new Promise<PaymentRequestUpdateDetails>((resolve) => {
+      updateWith.mockImplementation(resolve);
+    });
+
+    return {
+      event: {
+        shippingOption,
+        updateWith,
+      } as unknown as PaymentRequestShippingOptionEvent,
+      updated,
+    };
+  };
+
+  it("tracks the selected shipping option", async () => {
+    const controller = createPaymentRequestController(stripe, {
+      ...options,
+      requestShipping: true,
+      shippingOptions,
+    });
+    const { event, updated } = shippingOptionEvent(express);
+
+    expect(controller.getState().shippingOption).toBe(ground);
+
+    paymentRequestEmitter.emit("shippingoptionchange", event);
+
+    expect(controller.getState().shippingOption).toBe(express);
+    expect(await updated).toStrictEqual({ status: "success" });
+  });
+
+  it("opens with the selected shipping option first", async () => {
+    const controller = createPaymentRequestController(stripe, {
+      ...options,
+      requestShipping: true,
+      shippingOptions,
+    });
+
+    await nextState(controller);
+    paymentRequestEmitter.emit(
+      "shippingoptionchange",
+      shippingOptionEvent(express).event
+    );
+    controller.setOpen(true);
+
+    expect(paymentRequest.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        shippingOptions: [express, ground],
+      })
+    );
+  });
+
+  it("applies the selected shipping option to displayItems and total", async () => {
+    const controller = createPaymentRequestController(
+      stripe,
+      { ...options, requestShipping: true, shippingOptions },
+      { applyShippingOption: true }
+    );
+    const { event, updated } = shippingOptionEvent(express);
+
+    await nextState(controller);
+    controller.setOpen(true);
+
+    expect(paymentRequest.update).toHaveBeenCalledWith({
+      currency: "cad",
+      displayItems: [
+        ...(options.displayItems ?? []),
+        { amount: 500, label: "Ground" },
+      ],
+      shippingOptions,
+      total: { amount: 600, label: "Total" },
+    });
+
+    paymentRequestEmitter.emit("shippingoptionchange", event);
+
+    expect(await updated).toStrictEqual({
+      displayItems: [
+        ...(options.displayItems ?? []),
+        { amount: 1500, label: "Express" },
+      ],
+      status: "success",
+      total: { amount: 1600, label: "Total" },
+    });
+  });
+
+  it("leaves events another subscription handles", async () => {
+    const controller = createPaymentRequestController(stripe, {
+      ...options,
+      requestShipping: true,
+      shippingOptions,
+    });
+    const { event, updated } = shippingOptionEvent(express);
+
+    controller.onShippingOptionChange(() => "fail");
+    paymentRequestEmitter.emit("shippingoptionchange", event);
+
+    expect(await updated).toStrictEqual({ status: "fail" });
+    expect(event.updateWith).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps the selection while it's offered", () => {
+    const controller = createPaymentRequestController(stripe, {
+      ...options,
+      requestShipping: true,
+      shippingOptions,
+    });
+
+    paymentRequestEmitter.emit(
+      "shippingoptionchange",
+      shippingOptionEvent(express).event
+    );
+    controller.update({ ...options, shippingOptions: [...shippingOptions] });
+
+    expect(controller.getState().shippingOption).toBe(express);
+
+    controller.update({ ...options, shippingOptions: [ground] });
+
+    expect(controller.getState().shippingOption).toBe(ground);
+  });
+
+  it("selects the first of the shipping options a callback updates with", async () => {
+    const controller = createPaymentRequestController(stripe, {
+      ...options,
+      requestShipping: true,
+      shippingOptions,
+    });
+    const { event, updated } = shippingAddressEvent();
+
+    controller.onShippingAddressChange(() => ({
+      shippingOptions: [express, ground],
+      status: "success",
+    }));
+    paymentRequestEmitter.emit("shippingaddresschange", event);
+    await updated;
+
+    expect(controller.getState().shippingOption).toBe(express);
+  });
+});
+
+describe("duplicate payments", () => {
+  const paymentMethodEvent = (id: string) => {
+    const complete = jest.fn<void, [PaymentRequestCompleteStatus]>();
+    const completed = new Promise<PaymentRequestCompleteStatus>((resolve) => {
+      complete.mockImplementation(resolve);
+    });
+
+    return {
+      completed,
+      event: {
+        complete,
+        paymentMethod: { id },
+      } as unknown as PaymentRequestPaymentMethodEvent,
+    };
+  };
+
+  it("completes duplicates with the status of the payment in flight", async () => {
+    const controller = createPaymentRequestController(stripe, options);
+    const confirm: { current?: (status: "success") => void } = {};
+    const onPaymentMethod = jest.fn(
+      async () =>
+        new Promise<"success">((resolve) => {
+          confirm.current = resolve;
+        })
+    );
+    const first = paymentMethodEvent("pm_1");
+    const second = paymentMethodEvent("pm_2");
+
+    await nextState(controller);
+    controller.onPaymentMethod(onPaymentMethod);
+    controller.setOpen(true);
+    paymentRequestEmitter.emit("paymentmethod", first.event);
+    paymentRequestEmitter.emit("paymentmethod", second.event);
+    confirm.current?.("success");
+
+    expect(await first.completed).toBe("success");
+    expect(await second.completed).toBe("success");
+    expect(onPaymentMethod).toHaveBeenCalledTimes(1);
+  });
+
+  it("completes an event once when several subscriptions receive it", async () => {
+    const controller = createPaymentRequestController(stripe, options);
+    const onPaymentMethod = jest.fn(() => "success" as const);
+    const onOtherPaymentMethod = jest.fn(() => "fail" as const);
+    const { completed, event } = paymentMethodEvent("pm_1");
+
+    await nextState(controller);
+    controller.onPaymentMethod(onPaymentMethod);
+    controller.onPaymentMethod(onOtherPaymentMethod);
+    controller.setOpen(true);
+    paymentRequestEmitter.emit("paymentmethod", event);
+
+    expect(await completed).toBe("success");
+    expect(event.complete).toHaveBeenCalledTimes(1);
+    expect(onOtherPaymentMethod).not.toHaveBeenCalled();
+  });
+
+  it("keeps the idempotencyKey for retries until the sheet opens again", async () => {
+    const controller = createPaymentRequestController(stripe, options);
+    const onPaymentMethod = jest.fn<
+      "fail",
+      [unknown, PaymentRequestPaymentContext]
+    >(() => "fail");
+
+    await nextState(controller);
+    controller.onPaymentMethod(onPaymentMethod);
+    controller.setOpen(true);
+    const first = paymentMethodEvent("pm_1");
+
+    paymentRequestEmitter.emit("paymentmethod", first.event);
+    await first.completed;
+    const retry = paymentMethodEvent("pm_2");
+
+    paymentRequestEmitter.emit("paymentmethod", retry.event);
+    await retry.completed;
+    controller.setOpen(true);
+    const reopened = paymentMethodEvent("pm_3");
+
+    paymentRequestEmitter.emit("paymentmethod", reopened.event);
+    await reopened.completed;
+    const [firstKey, retryKey, reopenedKey] = onPaymentMethod.mock.calls.map(
+      ([, { idempotencyKey }]) => idempotencyKey
+    );
+
+    expect(retryKey).toBe(firstKey);
+    expect(reopenedKey).not.toBe(firstKey);
+  });
+
+  it("keeps a timed out payment in flight until its handler settles", async () => {
+    const controller = createPaymentRequestController(stripe, options);
+    const confirm: { current?: (status: "fail") => void } = {};
+    const onPaymentMethod = jest.fn<
+      Promise<"fail">,
+      [unknown, PaymentRequestPaymentContext]
+    >(
+      async () =>
+        new Promise((resolve) => {
+          confirm.current = resolve;
+        })
+    );
+    const first = paymentMethodEvent("pm_1");
+
+    await nextState(controller);
+    controller.onPaymentMethod(onPaymentMethod, { timeout: 10 });
+    controller.setOpen(true);
+    paymentRequestEmitter.emit("paymentmethod", first.event);
+    jest.advanceTimersByTime(10);
+
+    expect(await first.completed).toBe("fail");
+
+    const retry = paymentMethodEvent("pm_2");
+
+    paymentRequestEmitter.emit("paymentmethod", retry.event);
+    confirm.current?.("fail");
+
+    expect(await retry.completed).toBe("fail");
+    expect(onPaymentMethod).toHaveBeenCalledTimes(1);
+
+    const settledRetry = paymentMethodEvent("pm_3");
+
+    paymentRequestEmitter.emit("paymentmethod", settledRetry.event);
+    jest.advanceTimersByTime(10);
+    await settledRetry.completed;
+    const [firstKey, settledRetryKey] = onPaymentMethod.mock.calls.map(
+      ([, { idempotencyKey }]) => idempotencyKey
+    );
+
+    expect(onPaymentMethod).toHaveBeenCalledTimes(2);
+    expect(settledRetryKey).toBe(firstKey);
+  });
+});
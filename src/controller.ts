@@ -0,0 +1,714 @@
+import { isEqual } from "lodash/fp";
+
+import { getShippingAddressEventCallback } from "./address";
+import { withShippingOption } from "./cart";
+import { getAmountWarnings } from "./currency";
+import {
+  handledEvents,
+  lifecycleReporters,
+  paymentSessions,
+  subscribeToPaymentEvent,
+  subscribeToPaymentIntent,
+  subscribeToShippingEvent,
+} from "./events";
+
+import type { PaymentRequestShippingAddressEventOptions } from "./address";
+import type {
+  LifecycleReporter,
+  MaybePromise,
+  PaymentEvents,
+  PaymentRequestEventContext,
+  PaymentRequestEventOptions,
+  PaymentRequestPaymentContext,
+  PaymentRequestPaymentEventOptions,
+  PaymentRequestPaymentIntentState,
+  ShippingResponse,
+  ShippingUpdateOptions,
+} from "./events";
+import type {
+  CanMakePaymentResult,
+  PaymentRequest,
+  PaymentRequestCompleteStatus,
+  PaymentRequestItem,
+  PaymentRequestOptions,
+  PaymentRequestPaymentMethodEvent,
+  PaymentRequestShippingAddress,
+  PaymentRequestShippingOption,
+  PaymentRequestShippingOptionEvent,
+  PaymentRequestSourceEvent,
+  PaymentRequestTokenEvent,
+  PaymentRequestUpdateOptions,
+  Stripe,
+} from "@stripe/stripe-js";
+
+/**
+ * What requestPayment resolves with: the payment event to complete, or a cancel
+ */
+export type PaymentRequestResult<
+  EventName extends keyof PaymentEvents = keyof PaymentEvents
+> = { event: PaymentEvents[EventName]; type: EventName } | { type: "cancel" };
+
+/**
+ * Where the payment request is in its lifecycle:
+ * - checking: waiting on stripe or canMakePayment
+ * - unsupported: no wallet can make the payment
+ * - ready: the sheet can be opened
+ * - showing: the sheet is open
+ * - updating: waiting on a shipping callback
+ * - processing: waiting on a payment callback
+ * - succeeded / failed: the payment was completed with "success" / any other status
+ * - cancelled: the sheet was closed without paying
+ */
+export type PaymentRequestStatus =
+  | "cancelled"
+  | "checking"
+  | "failed"
+  | "processing"
+  | "ready"
+  | "showing"
+  | "succeeded"
+  | "unsupported"
+  | "updating";
+
+type SheetStatus = Exclude<PaymentRequestStatus, "checking" | "unsupported">;
+
+export interface PaymentRequestControllerState {
+  /** Same shape as react-use's useAsync */
+  canMakePayment: {
+    error?: unknown;
+    loading: boolean;
+    value?: CanMakePaymentResult;
+  };
+  open: boolean;
+  /** The first of shippingOptions until the customer selects another */
+  shippingOption?: PaymentRequestShippingOption;
+  status: PaymentRequestStatus;
+}
+
+interface InternalState {
+  canMakePayment: PaymentRequestControllerState["canMakePayment"];
+  open: boolean;
+  sheetStatus: SheetStatus;
+  shippingOption?: PaymentRequestShippingOption;
+}
+
+interface SelectableDetails {
+  displayItems?: PaymentRequestItem[];
+  shippingOptions?: PaymentRequestShippingOption[];
+  total?: PaymentRequestItem;
+}
+
+type DetailsSelector = <Details extends SelectableDetails>(
+  details: Details
+) => Details;
+
+// How the controller owning a paymentRequest selects its shipping option in any details
+const detailsSelectors = new WeakMap<PaymentRequest, DetailsSelector>();
+
+/**
+ * The details with the selected shipping option first, so the sheet keeps it selected, and applied to displayItems & total with applyShippingOption.
+ * For the shipping hooks, which update with their own details. Unchanged for a paymentRequest no controller owns.
+ */
+export const withSelectedShippingOption = <Details extends SelectableDetails>(
+  paymentRequest: PaymentRequest,
+  details: Details
+) => detailsSelectors.get(paymentRequest)?.(details) ?? details;
+
+export interface PaymentRequestControllerOptions {
+  /** Adds the selected shipping option's line to displayItems and its amount to total, which then shouldn't include shipping */
+  applyShippingOption?: boolean;
+  /** Called with every problem getAmountWarnings finds in the details, whenever they change (ie amounts that aren't integers of the currency's minor unit) */
+  onAmountWarning?: (warning: string) => void;
+}
+
+/**
+ * Owns a paymentRequest, its open state and its event subscriptions, without any framework. usePaymentRequest is a thin adapter over it.
+ *
+ * @link https://stripe.com/docs/js/payment_request/create
+ *
+ * @example
+ *
+ * const controller = createPaymentRequestController(stripe, { ... });
+ *
+ * controller.subscribe(({ status }) => render(status));
+ * controller.onPaymentMethod(async (paymentResponse) => "success");
+ * button.addEventListener("click", () => controller.setOpen(true));
+ */
+export const createPaymentRequestController = (
+  stripe: Stripe,
+  {
+    country,
+    currency,
+    disableWallets,
+    displayItems,
+    requestPayerEmail,
+    requestPayerName,
+    requestPayerPhone,
+    requestShipping,
+    shippingOptions,
+    total,
+  }: PaymentRequestOptions,
+  { applyShippingOption, onAmountWarning }: PaymentRequestControllerOptions = {}
+) => {
+  const paymentRequest = stripe.paymentRequest({
+    // currency, displayItems, shippingOptions, & total can be updated and we don't want to need a new payment request
+    // so we put some dummy values here and update them wherever updates are allowed
+    country,
+    currency: "usd",
+    disableWallets,
+    displayItems: [],
+    requestPayerEmail,
+    requestPayerName,
+    requestPayerPhone,
+    requestShipping,
+    shippingOptions: [],
+    total: {
+      amount: 0,
+      label: total.label,
+      pending: true,
+    },
+  });
+
+  // Applied to the paymentRequest whenever it isn't showing
+  const details: { current: PaymentRequestUpdateOptions } = {
+    current: { currency, displayItems, shippingOptions, total },
+  };
+
+  const warnAboutAmounts = () =>
+    getAmountWarnings(details.current).map((warning) =>
+      onAmountWarning?.(warning)
+    );
+
+  warnAboutAmounts();
+
+  const internalState: { current: InternalState } = {
+    current: {
+      canMakePayment: { loading: true },
+      open: false,
+      sheetStatus: "ready",
+      shippingOption: shippingOptions?.[0],
+    },
+  };
+  const state: { current: PaymentRequestControllerState } = {
+    current: {
+      canMakePayment: { loading: true },
+      open: false,
+      shippingOption: shippingOptions?.[0],
+      status: "checking",
+    },
+  };
+  const listeners: {
+    current: ((
+      state: PaymentRequestControllerState,
+      previousState: PaymentRequestControllerState
+    ) => void)[];
+  } = { current: [] };
+  const subscriptions: { current: (() => void)[] } = { current: [] };
+  const destroyed = { current: false };
+  // Whether details haven't been applied yet, and the timeout that applies them
+  const stale = { current: true };
+  const applyTimeout: { current?: ReturnType<typeof setTimeout> } = {};
+
+  const setState = (changes: Partial<InternalState>) => {
+    if (destroyed.current) {
+      return;
+    }
+
+    internalState.current = { ...internalState.current, ...changes };
+
+    const { canMakePayment, open, sheetStatus, shippingOption } =
+      internalState.current;
+    const status: PaymentRequestStatus = canMakePayment.loading
+      ? "checking"
+      : !canMakePayment.value
+      ? "unsupported"
+      : sheetStatus;
+    const previousState = state.current;
+
+    if (
+      canMakePayment === previousState.canMakePayment &&
+      open === previousState.open &&
+      shippingOption === previousState.shippingOption &&
+      status === previousState.status
+    ) {
+      return;
+    }
+
+    // Replaced rather than mutated, so a state can be compared by reference
+    state.current = { canMakePayment, open, shippingOption, status };
+    listeners.current.map((listener) => listener(state.current, previousState));
+  };
+
+  void (async () => {
+    const canMakePayment = await (async () => {
+      try {
+        return {
+          loading: false,
+          value: (await paymentRequest.canMakePayment()) ?? undefined,
+        };
+      } catch (error) {
+        return { error, loading: false };
+      }
+    })();
+
+    setState({ canMakePayment });
+  })();
+
+  const selectDetails = <Details extends SelectableDetails>(
+    unselectedDetails: Details
+  ): Details => {
+    const { shippingOption } = internalState.current;
+    const selectedDetails = !shippingOption
+      ? unselectedDetails
+      : {
+          ...unselectedDetails,
+          // The sheet selects the first shipping option it's updated with
+          shippingOptions: unselectedDetails.shippingOptions && [
+            shippingOption,
+            ...unselectedDetails.shippingOptions.filter(
+              ({ id }) => id !== shippingOption.id
+            ),
+          ],
+        };
+
+    return !applyShippingOption
+      ? selectedDetails
+      : withShippingOption(selectedDetails, shippingOption);
+  };
+
+  detailsSelectors.set(paymentRequest, selectDetails);
+
+  const getDetails = () => selectDetails(details.current);
+
+  const applyDetails = () => {
+    if (applyTimeout.current) {
+      clearTimeout(applyTimeout.current);
+      applyTimeout.current = undefined;
+    }
+
+    // Stripe throws on update while the sheet is showing, the details stay stale until it closes
+    if (destroyed.current || paymentRequest.isShowing()) {
+      return;
+    }
+
+    stale.current = false;
+    paymentRequest.update(getDetails());
+  };
+
+  // Changes within the same task are applied together
+  const scheduleApplyDetails = () => {
+    if (!stale.current || applyTimeout.current !== undefined) {
+      return;
+    }
+
+    applyTimeout.current = setTimeout(applyDetails, 0);
+  };
+
+  const handleCancel = () => {
+    setState({ open: false, sheetStatus: "cancelled" });
+    scheduleApplyDetails();
+  };
+
+  paymentRequest.on("cancel", handleCancel);
+  scheduleApplyDetails();
+
+  const reportLifecycle: LifecycleReporter = (eventName, status) => {
+    if (
+      eventName === "shippingaddresschange" ||
+      eventName === "shippingoptionchange"
+    ) {
+      setState({
+        sheetStatus: status ? "showing" : "updating",
+        // The sheet selects the first of the shippingOptions a callback updates it with
+        ...(typeof status === "object" &&
+          status.shippingOptions && {
+            shippingOption: status.shippingOptions[0],
+          }),
+      });
+
+      return;
+    }
+
+    if (status === undefined) {
+      setState({ sheetStatus: "processing" });
+
+      return;
+    }
+
+    // The sheet closes once the payment is completed, no matter the status
+    setState({
+      open: false,
+      sheetStatus: status === "success" ? "succeeded" : "failed",
+    });
+    scheduleApplyDetails();
+  };
+
+  lifecycleReporters.set(paymentRequest, reportLifecycle);
+
+  const handleShippingOptionChange = async (
+    event: PaymentRequestShippingOptionEvent
+  ) => {
+    setState({ shippingOption: event.shippingOption });
+
+    // Subscriptions mark the events they receive right away, and they're listening after this handler
+    await Promise.resolve();
+
+    if (handledEvents.has(event)) {
+      return;
+    }
+
+    const { displayItems: newDisplayItems, total: newTotal } = getDetails();
+
+    // shippingOptions are left out, updating them would select the first one
+    event.updateWith({
+      status: "success",
+      ...(applyShippingOption && {
+        displayItems: newDisplayItems,
+        total: newTotal,
+      }),
+    });
+  };
+
+  if (requestShipping) {
+    paymentRequest.on("shippingoptionchange", handleShippingOptionChange);
+  }
+
+  // Every sheet is a new attempt, with its own idempotencyKey, and shows the latest details
+  const prepareSheet = () => {
+    paymentSessions.delete(paymentRequest);
+    stale.current = true;
+    applyDetails();
+  };
+
+  const markOpen = () => {
+    if (!state.current.canMakePayment.value || state.current.open) {
+      return;
+    }
+
+    setState({ open: true, sheetStatus: "showing" });
+    prepareSheet();
+  };
+
+  const setOpen = (open: boolean) => {
+    if (
+      !state.current.canMakePayment.value ||
+      open === state.current.open ||
+      open === paymentRequest.isShowing()
+    ) {
+      return;
+    }
+
+    setState({ open, sheetStatus: open ? "showing" : "cancelled" });
+
+    if (open) {
+      prepareSheet();
+      paymentRequest.show();
+    } else {
+      void paymentRequest.abort?.();
+      scheduleApplyDetails();
+    }
+  };
+
+  /**
+   * Opens the sheet and resolves with the first payment event, or a cancel.
+   * The payment event still has to be completed.
+   */
+  const requestPayment = async <
+    EventName extends keyof PaymentEvents = "paymentmethod"
+  >(
+    eventName = "paymentmethod" as EventName
+  ) => {
+    if (!state.current.canMakePayment.value || paymentRequest.isShowing()) {
+      throw new Error(
+        "requestPayment can't show a paymentRequest that's unavailable or already showing"
+      );
+    }
+
+    const result = new Promise<PaymentRequestResult<EventName>>((resolve) => {
+      const unsubscribe = { current: () => {} };
+
+      const handlePayment = (event: PaymentEvents[EventName]) => {
+        unsubscribe.current();
+        reportLifecycle(eventName);
+        resolve({
+          event: {
+            ...event,
+            complete: (status: PaymentRequestCompleteStatus) => {
+              event.complete(status);
+              reportLifecycle(eventName, status);
+            },
+          },
+          type: eventName,
+        });
+      };
+
+      const handleRequestCancel = () => {
+        unsubscribe.current();
+        resolve({ type: "cancel" });
+      };
+
+      unsubscribe.current = () => {
+        subscriptions.current = subscriptions.current.filter(
+          (subscription) => subscription !== handleRequestCancel
+        );
+        // @ts-expect-error -- FIXME paymentRequest.off is a function overload and it won't detect that any EventName & Event pair fits https://github.com/microsoft/TypeScript/issues/14107
+        paymentRequest.off(eventName, handlePayment);
+        paymentRequest.off("cancel", handleRequestCancel);
+      };
+
+      // @ts-expect-error -- FIXME paymentRequest.on is a function overload and it won't detect that any EventName & Event pair fits https://github.com/microsoft/TypeScript/issues/14107
+      paymentRequest.on(eventName, handlePayment);
+      paymentRequest.on("cancel", handleRequestCancel);
+      // Destroying the controller cancels it
+      subscriptions.current = [...subscriptions.current, handleRequestCancel];
+    });
+
+    setOpen(true);
+
+    return result;
+  };
+
+  // Subscriptions made through the controller are removed when it's destroyed
+  const own = (unsubscribe: () => void) => {
+    subscriptions.current = [...subscriptions.current, unsubscribe];
+
+    return () => {
+      subscriptions.current = subscriptions.current.filter(
+        (subscription) => subscription !== unsubscribe
+      );
+      unsubscribe();
+    };
+  };
+
+  return {
+    /**
+     * Aborts the sheet if it's showing and removes every listener & subscription, for when the paymentRequest is replaced or unused
+     */
+    destroy: () => {
+      if (paymentRequest.isShowing()) {
+        void paymentRequest.abort?.();
+      }
+
+      subscriptions.current.map((unsubscribe) => unsubscribe());
+      subscriptions.current = [];
+      listeners.current = [];
+      destroyed.current = true;
+
+      if (applyTimeout.current) {
+        clearTimeout(applyTimeout.current);
+      }
+
+      paymentRequest.off("cancel", handleCancel);
+      paymentRequest.off("shippingoptionchange", handleShippingOptionChange);
+
+      if (lifecycleReporters.get(paymentRequest) === reportLifecycle) {
+        lifecycleReporters.delete(paymentRequest);
+      }
+
+      if (detailsSelectors.get(paymentRequest) === selectDetails) {
+        detailsSelectors.delete(paymentRequest);
+      }
+    },
+    getState: () => state.current,
+    /**
+     * Follows a sheet that something else shows, ie Stripe's paymentRequestButton element, applying the latest details first.
+     * Call it from that click handler, since a sheet can only be shown within the click's user gesture.
+     */
+    markOpen,
+    /**
+     * @link https://stripe.com/docs/stripe-js/elements/payment-request-button#complete-payment
+     */
+    onPaymentIntent: (
+      getClientSecret: (
+        paymentResponse: Omit<PaymentRequestPaymentMethodEvent, "complete">,
+        context: PaymentRequestPaymentContext
+      ) => MaybePromise<string>,
+      onStateChange: (state: PaymentRequestPaymentIntentState) => void,
+      eventOptions?: PaymentRequestEventOptions<
+        PaymentRequestPaymentMethodEvent,
+        PaymentRequestCompleteStatus
+      >
+    ) =>
+      own(
+        subscribeToPaymentIntent(
+          stripe,
+          paymentRequest,
+          getClientSecret,
+          onStateChange,
+          eventOptions
+        )
+      ),
+    /**
+     * @link https://stripe.com/docs/js/payment_request/events/on_paymentmethod
+     */
+    onPaymentMethod: (
+      onPaymentMethodChange: (
+        paymentResponse: Omit<PaymentRequestPaymentMethodEvent, "complete">,
+        context: PaymentRequestPaymentContext
+      ) => MaybePromise<PaymentRequestCompleteStatus>,
+      eventOptions?: PaymentRequestPaymentEventOptions<PaymentRequestPaymentMethodEvent>
+    ) =>
+      own(
+        subscribeToPaymentEvent(
+          paymentRequest,
+          "paymentmethod",
+          onPaymentMethodChange,
+          eventOptions
+        )
+      ),
+    /**
+     * Without its own `getDetails`, a "success" status is updated with the controller's details
+     *
+     * @link https://stripe.com/docs/js/payment_request/events/on_shipping_address_change
+     */
+    onShippingAddressChange: (
+      onShippingAddressChange: (
+        shippingAddress: PaymentRequestShippingAddress,
+        context: PaymentRequestEventContext
+      ) => MaybePromise<ShippingResponse>,
+      eventOptions?: PaymentRequestShippingAddressEventOptions,
+      updateOptions?: Partial<ShippingUpdateOptions>
+    ) =>
+      own(
+        subscribeToShippingEvent(
+          paymentRequest,
+          "shippingaddresschange",
+          getShippingAddressEventCallback(
+            onShippingAddressChange,
+            eventOptions
+          ),
+          eventOptions,
+          { getDetails, ...updateOptions }
+        )
+      ),
+    /**
+     * Without its own `getDetails`, a "success" status is updated with the controller's details
+     *
+     * @link https://stripe.com/docs/js/payment_request/events/on_shipping_option_change
+     */
+    onShippingOptionChange: (
+      onShippingOptionChange: (
+        shippingOption: PaymentRequestShippingOption,
+        context: PaymentRequestEventContext
+      ) => MaybePromise<ShippingResponse>,
+      eventOptions?: PaymentRequestEventOptions<
+        PaymentRequestShippingOptionEvent,
+        ShippingResponse
+      >,
+      updateOptions?: Partial<ShippingUpdateOptions>
+    ) =>
+      own(
+        subscribeToShippingEvent(
+          paymentRequest,
+          "shippingoptionchange",
+          ({ shippingOption }, context) =>
+            onShippingOptionChange(shippingOption, context),
+          eventOptions,
+          { getDetails, ...updateOptions }
+        )
+      ),
+    /**
+     * @link https://stripe.com/docs/js/payment_request/events/on_source
+     */
+    onSource: (
+      onSourceChange: (
+        paymentResponse: Omit<PaymentRequestSourceEvent, "complete">,
+        context: PaymentRequestPaymentContext
+      ) => MaybePromise<PaymentRequestCompleteStatus>,
+      eventOptions?: PaymentRequestPaymentEventOptions<PaymentRequestSourceEvent>
+    ) =>
+      own(
+        subscribeToPaymentEvent(
+          paymentRequest,
+          "source",
+          onSourceChange,
+          eventOptions
+        )
+      ),
+    /**
+     * @link https://stripe.com/docs/js/payment_request/events/on_token
+     */
+    onToken: (
+      onTokenChange: (
+        paymentResponse: Omit<PaymentRequestTokenEvent, "complete">,
+        context: PaymentRequestPaymentContext
+      ) => MaybePromise<PaymentRequestCompleteStatus>,
+      eventOptions?: PaymentRequestPaymentEventOptions<PaymentRequestTokenEvent>
+    ) =>
+      own(
+        subscribeToPaymentEvent(
+          paymentRequest,
+          "token",
+          onTokenChange,
+          eventOptions
+        )
+      ),
+    paymentRequest,
+    requestPayment,
+    setOpen,
+    /**
+     * Calls the listener on every state change, with the previous state
+     */
+    subscribe: (
+      listener: (
+        state: PaymentRequestControllerState,
+        previousState: PaymentRequestControllerState
+      ) => void
+    ) => {
+      listeners.current = [...listeners.current, listener];
+
+      return () => {
+        listeners.current = listeners.current.filter(
+          (other) => other !== listener
+        );
+      };
+    },
+    /**
+     * Replaces the currency, displayItems, shippingOptions & total, and the selected shipping option if it isn't offered anymore.
+     * They're applied to the paymentRequest after the current task, or once the sheet closes if it's showing.
+     */
+    update: ({
+      currency: newCurrency,
+      displayItems: newDisplayItems,
+      shippingOptions: newShippingOptions,
+      total: newTotal,
+    }: PaymentRequestUpdateOptions) => {
+      const newDetails = {
+        currency: newCurrency,
+        displayItems: newDisplayItems,
+        shippingOptions: newShippingOptions,
+        total: newTotal,
+      };
+      const changed = !isEqual(newDetails, details.current);
+
+      details.current = newDetails;
+
+      if (changed) {
+        warnAboutAmounts();
+      }
+
+      // Keeps the selection when it's still offered, otherwise the sheet is back to the first
+      const { shippingOption } = internalState.current;
+      const newShippingOption =
+        newShippingOptions?.find(({ id }) => id === shippingOption?.id) ??
+        newShippingOptions?.[0];
+
+      const selectionMoved = !isEqual(newShippingOption, shippingOption);
+
+      // Equal options passed again (ie inline arrays) don't change the state
+      setState({
+        shippingOption: selectionMoved ? newShippingOption : shippingOption,
+      });
+
+      // Re-rendering with the same details doesn't update the paymentRequest again
+      if (changed || selectionMoved) {
+        stale.current = true;
+        scheduleApplyDetails();
+      }
+    },
+  };
+};
+
+export type PaymentRequestController = ReturnType<
+  typeof createPaymentRequestController
+>;
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "@jest/globals";
+
+import {
+  formatAmount,
+  getAmountWarnings,
+  getCurrencyDecimals,
+  isZeroDecimalCurrency,
+  toMajorUnits,
+  toMinorUnits,
+} from "./currency";
+
+describe("getCurrencyDecimals", () => {
+  it("knows zero and three-decimal currencies", () => {
+    expect(getCurrencyDecimals("usd")).toBe(2);
+    expect(getCurrencyDecimals("JPY")).toBe(0);
+    expect(getCurrencyDecimals("kwd")).toBe(3);
+    expect(isZeroDecimalCurrency("krw")).toBe(true);
+    expect(isZeroDecimalCurrency("cad")).toBe(false);
+  });
+});
+
+describe("toMinorUnits", () => {
+  it("converts between major and minor units", () => {
+    expect(toMinorUnits(10.5, "usd")).toBe(1050);
+    expect(toMinorUnits(1050, "jpy")).toBe(1050);
+    expect(toMinorUnits(1.5, "kwd")).toBe(1500);
+    expect(toMinorUnits(0.1 + 0.2, "usd")).toBe(30);
+    expect(toMajorUnits(1050, "usd")).toBe(10.5);
+    expect(toMajorUnits(1050, "jpy")).toBe(1050);
+    expect(toMajorUnits(1500, "kwd")).toBe(1.5);
+  });
+});
+
+describe("formatAmount", () => {
+  it("formats minor units with the currency's decimals", () => {
+    expect(formatAmount(1050, "usd", "en-US")).toBe("$10.50");
+    expect(formatAmount(1050, "jpy", "en-US")).toBe("¥1,050");
+    expect(formatAmount(1500, "kwd", "en-US")).toMatch(/^KWD\s1\.500$/u);
+  });
+});
+
+describe("getAmountWarnings", () => {
+  it("warns about amounts that aren't integers", () => {
+    expect(
+      getAmountWarnings({
+        currency: "usd",
+        displayItems: [
+          { amount: 1050, label: "An Item" },
+          { amount: 10.5, label: "Another Item" },
+        ],
+        shippingOptions: [
+          { amount: 5.25, detail: "", id: "ground", label: "Ground" },
+        ],
+        total: { amount: 1065.75, label: "Total" },
+      })
+    ).toStrictEqual([
+      "Another Item has to be an integer amount of minor units, not 10.5",
+      "Ground has to be an integer amount of minor units, not 5.25",
+      "Total has to be an integer amount of minor units, not 1065.75",
+    ]);
+  });
+
+  it("warns about malformed currencies", () => {
+    expect(getAmountWarnings({ currency: "$" })).toStrictEqual([
+      "$ isn't a three-letter ISO currency code",
+    ]);
+    expect(getAmountWarnings({ currency: "jpy" })).toStrictEqual([]);
+  });
+});
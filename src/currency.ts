@@ -0,0 +1,106 @@
+import type {
+  PaymentRequestItem,
+  PaymentRequestShippingOption,
+} from "@stripe/stripe-js";
+
+// https://stripe.com/docs/currencies#zero-decimal
+const zeroDecimalCurrencies = [
+  "bif",
+  "clp",
+  "djf",
+  "gnf",
+  "jpy",
+  "kmf",
+  "krw",
+  "mga",
+  "pyg",
+  "rwf",
+  "ugx",
+  "vnd",
+  "vuv",
+  "xaf",
+  "xof",
+  "xpf",
+];
+
+// https://stripe.com/docs/currencies#three-decimal
+const threeDecimalCurrencies = ["bhd", "jod", "kwd", "omr", "tnd"];
+
+/**
+ * How many decimals the currency's minor unit has, ie 2 for usd (cents), 0 for jpy and 3 for kwd
+ */
+export const getCurrencyDecimals = (currency: string) => {
+  const code = currency.toLowerCase();
+
+  if (zeroDecimalCurrencies.includes(code)) {
+    return 0;
+  }
+
+  return threeDecimalCurrencies.includes(code) ? 3 : 2;
+};
+
+/**
+ * Whether amounts in the currency are whole units (ie ¥100 is 100, not 10000)
+ */
+export const isZeroDecimalCurrency = (currency: string) =>
+  getCurrencyDecimals(currency) === 0;
+
+/**
+ * The amount of minor units every `amount` is given in, ie toMinorUnits(10.5, "usd") is 1050
+ */
+export const toMinorUnits = (amount: number, currency: string) =>
+  Math.round(amount * 10 ** getCurrencyDecimals(currency));
+
+/**
+ * The amount in major units, ie toMajorUnits(1050, "usd") is 10.5
+ */
+export const toMajorUnits = (amount: number, currency: string) =>
+  amount / 10 ** getCurrencyDecimals(currency);
+
+/**
+ * An amount of minor units formatted for display, ie for an order summary next to the wallet's button
+ *
+ * @example
+ *
+ * formatAmount(1050, "usd", "en-US"); // "$10.50"
+ * formatAmount(1050, "jpy", "en-US"); // "¥1,050"
+ */
+export const formatAmount = (
+  amount: number,
+  currency: string,
+  locale?: string | string[]
+) => {
+  const decimals = getCurrencyDecimals(currency);
+
+  return new Intl.NumberFormat(locale, {
+    currency,
+    maximumFractionDigits: decimals,
+    minimumFractionDigits: decimals,
+    style: "currency",
+  }).format(toMajorUnits(amount, currency));
+};
+
+/**
+ * What's wrong with the details' currency & amounts: amounts have to be integers of the currency's minor unit
+ */
+export const getAmountWarnings = ({
+  currency,
+  displayItems = [],
+  shippingOptions = [],
+  total,
+}: {
+  currency?: string;
+  displayItems?: PaymentRequestItem[];
+  shippingOptions?: PaymentRequestShippingOption[];
+  total?: PaymentRequestItem;
+}) => [
+  ...(currency !== undefined && !/^[a-z]{3}$/iu.test(currency)
+    ? [`${currency} isn't a three-letter ISO currency code`]
+    : []),
+  ...[...displayItems, ...shippingOptions, ...(total ? [total] : [])]
+    .filter(({ amount }) => !Number.isInteger(amount))
+    .map(
+      ({ amount, label }) =>
+        `${label} has to be an integer amount of minor units, not ${amount}`
+    ),
+];
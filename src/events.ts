@@ -0,0 +1,537 @@
+import { isString } from "lodash/fp";
+
+import { validatePayer } from "./payer";
+
+import type { PayerValidationOptions } from "./payer";
+import type {
+  PaymentIntent,
+  PaymentRequest,
+  PaymentRequestCompleteStatus,
+  PaymentRequestPaymentMethodEvent,
+  PaymentRequestShippingAddressEvent,
+  PaymentRequestShippingOptionEvent,
+  PaymentRequestSourceEvent,
+  PaymentRequestTokenEvent,
+  PaymentRequestUpdateDetails,
+  PaymentRequestUpdateDetailsStatus,
+  Stripe,
+  StripeError,
+} from "@stripe/stripe-js";
+
+export type MaybePromise<T> = T | Promise<T>;
+
+export interface PaymentEvents {
+  paymentmethod: PaymentRequestPaymentMethodEvent;
+  source: PaymentRequestSourceEvent;
+  token: PaymentRequestTokenEvent;
+}
+
+export interface ShippingEvents {
+  shippingaddresschange: PaymentRequestShippingAddressEvent;
+  shippingoptionchange: PaymentRequestShippingOptionEvent;
+}
+
+interface Events extends PaymentEvents, ShippingEvents {}
+
+export type PaymentValues = {
+  [Key in keyof PaymentEvents]: Omit<PaymentEvents[Key], "complete">;
+};
+
+type PaymentStatuses = {
+  [Key in keyof PaymentEvents]: PaymentRequestCompleteStatus;
+};
+
+/**
+ * Shipping callbacks either return a status, letting the current details be applied, or the complete details to update with
+ */
+export type ShippingResponse =
+  | PaymentRequestUpdateDetails
+  | PaymentRequestUpdateDetailsStatus;
+
+type ShippingStatuses = {
+  [Key in keyof ShippingEvents]: ShippingResponse;
+};
+
+interface Statuses extends PaymentStatuses, ShippingStatuses {}
+
+/**
+ * Passed to every event callback alongside the event's value
+ */
+export interface PaymentRequestEventContext {
+  /** Aborted once the event times out, so in-flight work (ie fetch) can be cancelled */
+  signal: AbortSignal;
+}
+
+/**
+ * Passed to every payment callback alongside the payment's value
+ */
+export interface PaymentRequestPaymentContext
+  extends PaymentRequestEventContext {
+  /** The same for every payment of a sheet session, to pass along to the server (ie as Stripe's Idempotency-Key) so a payment can't be charged twice */
+  idempotencyKey: string;
+}
+
+export interface PaymentRequestEventOptions<Event, Status> {
+  /** Called when the callback throws or rejects. The event is completed right away with the returned status, or "fail" */
+  onError?: (error: unknown, event: Event) => MaybePromise<Status | void>;
+  /** Called when the callback didn't settle within `timeout`. The event is then completed with "fail" */
+  onTimeout?: (event: Event) => void;
+  /** Milliseconds to wait for the callback before completing with "fail". Defaults to `setDefaultTimeout`'s value (2000) */
+  timeout?: number;
+}
+
+export interface PaymentRequestPaymentEventOptions<Event>
+  extends PaymentRequestEventOptions<Event, PaymentRequestCompleteStatus> {
+  /** Validates & normalizes the payer's details before the callback, completing with invalid_payer_email, invalid_payer_phone or invalid_payer_name instead of calling it */
+  validatePayer?: PayerValidationOptions;
+}
+
+const defaultTimeout = { current: 2000 };
+
+// Getting a client secret from the server and confirming it takes longer than most callbacks
+const defaultPaymentIntentTimeout = 15000;
+
+/**
+ * Changes the timeout used by every event subscription that isn't given its own `timeout`. Pass `Infinity` to never time out.
+ */
+export const setDefaultTimeout = (timeout: number) => {
+  defaultTimeout.current = timeout;
+};
+
+/**
+ * The event subscriptions don't know about the controller, so they report their events' progress to whichever controller created the paymentRequest.
+ * Without a status, the event was just received.
+ */
+export type LifecycleReporter = <EventName extends keyof Events>(
+  eventName: EventName,
+  status?: Statuses[EventName]
+) => void;
+
+export const lifecycleReporters = new WeakMap<
+  PaymentRequest,
+  LifecycleReporter
+>();
+
+/**
+ * Events that reached a subscription, so the controller knows which ones it has to update itself
+ */
+export const handledEvents = new WeakSet<Events[keyof Events]>();
+
+/**
+ * Main subscription for all paymentRequest events. Won't be used directly: we'll be using the named subscriptions instead ie subscribeToShippingEvent
+ *
+ * @link https://stripe.com/docs/js/payment_request/events
+ */
+const subscribeToEvent = <EventName extends keyof Events>(
+  paymentRequest: PaymentRequest,
+  eventName: EventName,
+  getCallback: (
+    event: Events[EventName]
+  ) => (status: Statuses[EventName]) => void,
+  onEvent: (
+    event: Events[EventName],
+    context: PaymentRequestEventContext
+  ) => MaybePromise<Statuses[EventName]>,
+  {
+    onError,
+    onTimeout,
+    timeout,
+  }: PaymentRequestEventOptions<Events[EventName], Statuses[EventName]> = {}
+) => {
+  const handler = async (event: Events[EventName]) => {
+    handledEvents.add(event);
+    const callback = getCallback(event);
+    const reportLifecycle = lifecycleReporters.get(paymentRequest);
+
+    reportLifecycle?.(eventName);
+    const abortController = new AbortController();
+    const eventTimeout = timeout ?? defaultTimeout.current;
+    const timer: { current?: ReturnType<typeof setTimeout> } = {};
+
+    const status = await Promise.race([
+      (async () => {
+        try {
+          return await onEvent(event, { signal: abortController.signal });
+        } catch (error) {
+          // A timed out callback has already been reported through onTimeout
+          if (abortController.signal.aborted) {
+            return "fail";
+          }
+
+          // onError failing too still has to complete the event
+          try {
+            return (await onError?.(error, event)) ?? "fail";
+          } catch {
+            return "fail";
+          }
+        }
+      })(),
+      new Promise<Statuses[EventName]>((resolve) => {
+        if (!Number.isFinite(eventTimeout)) {
+          return;
+        }
+
+        timer.current = setTimeout(() => {
+          abortController.abort();
+          onTimeout?.(event);
+          resolve("fail");
+        }, eventTimeout);
+      }),
+    ]);
+
+    if (timer.current) {
+      clearTimeout(timer.current);
+    }
+
+    callback(status);
+    reportLifecycle?.(eventName, status);
+  };
+
+  // @ts-expect-error -- FIXME paymentRequest.on is a function overload and it won't detect that any EventName & Event pair fits https://github.com/microsoft/TypeScript/issues/14107
+  paymentRequest.on(eventName, handler);
+
+  // @ts-expect-error -- FIXME paymentRequest.off is a function overload and it won't detect that any EventName & Event pair fits https://github.com/microsoft/TypeScript/issues/14107
+  return () => void paymentRequest.off(eventName, handler);
+};
+
+export interface ShippingUpdateOptions {
+  /** The details a "success" status is updated with */
+  getDetails: () => Omit<PaymentRequestUpdateDetails, "status">;
+  /** Runs the updates that take getDetails' details (a "success" status), right away by default. React delays them a render so the details can change first */
+  schedule?: (update: () => void) => void;
+}
+
+interface ShippingQueueEntry<Event> {
+  event: Event;
+  response?: ShippingResponse;
+}
+
+export const subscribeToShippingEvent = <
+  EventName extends keyof ShippingEvents
+>(
+  paymentRequest: PaymentRequest,
+  eventName: EventName,
+  onShippingResponseChange: (
+    event: ShippingEvents[EventName],
+    context: PaymentRequestEventContext
+  ) => MaybePromise<ShippingResponse>,
+  eventOptions:
+    | PaymentRequestEventOptions<ShippingEvents[EventName], ShippingResponse>
+    | undefined,
+  { getDetails, schedule = (update) => update() }: ShippingUpdateOptions
+) => {
+  // Events are queued in the order they arrive and updated in that same order, regardless of which callback settles first
+  const queue: { current: ShippingQueueEntry<ShippingEvents[EventName]>[] } = {
+    current: [],
+  };
+
+  const update = (scheduled: boolean): void => {
+    const [entry, ...rest] = queue.current;
+
+    if (!entry?.response) {
+      return;
+    }
+
+    const { event, response } = entry;
+
+    // Only a "success" status of the latest event waits for the details, anything else is updated right away
+    if (!scheduled && response === "success" && !rest.length) {
+      schedule(() => update(true));
+
+      return;
+    }
+
+    queue.current = rest;
+
+    // A newer event is queued behind this one, so only its status is reported: its details are stale and would overwrite the newer event's
+    if (rest.length) {
+      event.updateWith({
+        status: isString(response) ? response : response.status ?? "success",
+      });
+    } else if (!isString(response)) {
+      event.updateWith(response);
+    } else {
+      const { displayItems, shippingOptions, total } = getDetails();
+
+      event.updateWith({
+        status: response,
+        ...(response === "success" && { displayItems, shippingOptions, total }),
+      });
+    }
+
+    update(scheduled);
+  };
+
+  const getShippingCallback = (event: ShippingEvents[EventName]) => {
+    queue.current = [...queue.current, { event }];
+
+    return (response: ShippingResponse) => {
+      queue.current = queue.current.map((entry) =>
+        entry.event === event ? { ...entry, response } : entry
+      );
+      update(false);
+    };
+  };
+
+  return subscribeToEvent(
+    paymentRequest,
+    eventName,
+    getShippingCallback,
+    onShippingResponseChange,
+    eventOptions
+  );
+};
+
+interface PaymentSession {
+  idempotencyKey: string;
+  /** The handler of the payment in flight, whose result any duplicate is completed with too */
+  inFlight?: Promise<PaymentRequestCompleteStatus>;
+}
+
+/**
+ * A sheet session lasts until a payment succeeds or the controller opens the sheet again
+ */
+export const paymentSessions = new WeakMap<PaymentRequest, PaymentSession>();
+
+const completedEvents = new WeakSet<PaymentEvents[keyof PaymentEvents]>();
+
+const generateIdempotencyKey = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+/**
+ * Runs the payment handler unless another payment of the sheet session is in flight (ie a retry after a timeout, a second event, or the same event reaching another subscription), which then gets that handler's result instead.
+ * A payment stays in flight until its handler settles, even once its event timed out.
+ */
+const guardPayment = async (
+  paymentRequest: PaymentRequest,
+  context: PaymentRequestEventContext,
+  onPayment: (
+    context: PaymentRequestPaymentContext
+  ) => MaybePromise<PaymentRequestCompleteStatus>
+) => {
+  const session = paymentSessions.get(paymentRequest) ?? {
+    idempotencyKey: generateIdempotencyKey(),
+  };
+
+  if (session.inFlight) {
+    return session.inFlight;
+  }
+
+  const { idempotencyKey } = session;
+  const inFlight = (async () => onPayment({ ...context, idempotencyKey }))();
+
+  paymentSessions.set(paymentRequest, { idempotencyKey, inFlight });
+
+  try {
+    const status = await inFlight;
+
+    // A successful payment is the end of the session, a failed one can be retried with the same key
+    if (status === "success") {
+      paymentSessions.delete(paymentRequest);
+    }
+
+    return status;
+  } finally {
+    // Unless a new sheet started a new session meanwhile
+    if (paymentSessions.get(paymentRequest)?.inFlight === inFlight) {
+      paymentSessions.set(paymentRequest, { idempotencyKey });
+    }
+  }
+};
+
+/**
+ * Completes the event once, even when several subscriptions receive it
+ */
+const completePayment = <Event extends PaymentEvents[keyof PaymentEvents]>(
+  event: Event,
+  status: PaymentRequestCompleteStatus
+) => {
+  if (completedEvents.has(event)) {
+    return;
+  }
+
+  completedEvents.add(event);
+  event.complete(status);
+};
+
+export const subscribeToPaymentEvent = <EventName extends keyof PaymentEvents>(
+  paymentRequest: PaymentRequest,
+  eventName: EventName,
+  onPaymentResponseChange: (
+    value: Omit<PaymentValues[EventName], "complete">,
+    context: PaymentRequestPaymentContext
+  ) => MaybePromise<PaymentRequestCompleteStatus>,
+  {
+    validatePayer: payerValidation,
+    ...eventOptions
+  }: PaymentRequestPaymentEventOptions<PaymentEvents[EventName]> = {}
+) =>
+  subscribeToEvent(
+    paymentRequest,
+    eventName,
+    (event) => (status) => completePayment(event, status),
+    async (event: Events[EventName], context) => {
+      const { complete, ...value } = event;
+      const result = payerValidation
+        ? validatePayer(value, payerValidation)
+        : { value };
+
+      if ("status" in result) {
+        return result.status;
+      }
+
+      return guardPayment(paymentRequest, context, (paymentContext) =>
+        onPaymentResponseChange(result.value, paymentContext)
+      );
+    },
+    eventOptions
+  );
+
+/**
+ * Where a PaymentIntent confirmation is:
+ * - idle: waiting on a paymentmethod event
+ * - processing: getting the client secret & confirming with the wallet's payment method
+ * - authenticating: the sheet closed and the customer is handling the next action (ie 3D Secure)
+ * - succeeded / failed: confirmed, with the resulting PaymentIntent / StripeError (none when handling the next action throws)
+ */
+export type PaymentRequestPaymentIntentState =
+  | { error?: undefined; paymentIntent: PaymentIntent; status: "succeeded" }
+  | { error?: StripeError; paymentIntent?: undefined; status: "failed" }
+  | {
+      error?: undefined;
+      paymentIntent?: undefined;
+      status: "authenticating" | "idle" | "processing";
+    };
+
+/**
+ * Confirms a PaymentIntent with the wallet's payment method, following Stripe's two step flow: the sheet is completed as soon as the payment method is confirmed and any next action (ie 3D Secure) is handled after the sheet closes.
+ * If getClientSecret throws, the state goes back to idle and the error goes through `onError`.
+ * The timeout defaults to 15 seconds (or the default timeout if it's longer). Once it's reached the state goes back to idle and the PaymentIntent isn't confirmed, unless confirming had already started.
+ *
+ * @link https://stripe.com/docs/stripe-js/elements/payment-request-button#complete-payment
+ */
+export const subscribeToPaymentIntent = (
+  stripe: Stripe,
+  paymentRequest: PaymentRequest,
+  getClientSecret: (
+    paymentResponse: Omit<PaymentRequestPaymentMethodEvent, "complete">,
+    context: PaymentRequestPaymentContext
+  ) => MaybePromise<string>,
+  onStateChange: (state: PaymentRequestPaymentIntentState) => void,
+  {
+    timeout = Math.max(defaultTimeout.current, defaultPaymentIntentTimeout),
+    ...eventOptions
+  }: PaymentRequestEventOptions<
+    PaymentRequestPaymentMethodEvent,
+    PaymentRequestCompleteStatus
+  > = {}
+) => {
+  // Client secrets of the events whose PaymentIntent requires an action once they're completed
+  const requiresAction = new WeakMap<
+    PaymentRequestPaymentMethodEvent,
+    string
+  >();
+
+  const authenticate = async (clientSecret: string) => {
+    onStateChange({ status: "authenticating" });
+
+    const result = await (async () => {
+      try {
+        return await stripe.confirmCardPayment(clientSecret);
+      } catch {
+        // The sheet is already completed, so there's nothing left to report the error to
+        return undefined;
+      }
+    })();
+
+    onStateChange(
+      !result
+        ? { status: "failed" }
+        : result.error
+        ? { error: result.error, status: "failed" }
+        : { paymentIntent: result.paymentIntent, status: "succeeded" }
+    );
+  };
+
+  const getPaymentIntentCallback =
+    (event: PaymentRequestPaymentMethodEvent) =>
+    (status: PaymentRequestCompleteStatus) => {
+      completePayment(event, status);
+
+      const clientSecret = requiresAction.get(event);
+
+      if (clientSecret) {
+        void authenticate(clientSecret);
+      }
+    };
+
+  return subscribeToEvent(
+    paymentRequest,
+    "paymentmethod",
+    getPaymentIntentCallback,
+    async (event, context) =>
+      guardPayment(paymentRequest, context, async (paymentContext) => {
+        const { complete, ...paymentResponse } = event;
+        const { signal } = paymentContext;
+        const confirming = { current: false };
+        const timedOut = { current: false };
+
+        onStateChange({ status: "processing" });
+
+        // The sheet already failed, so nothing gets confirmed unless it's already underway
+        signal.addEventListener("abort", () => {
+          timedOut.current = true;
+
+          if (!confirming.current) {
+            onStateChange({ status: "idle" });
+          }
+        });
+
+        const clientSecret = await (async () => {
+          try {
+            return await getClientSecret(paymentResponse, paymentContext);
+          } catch (error) {
+            if (!signal.aborted) {
+              onStateChange({ status: "idle" });
+            }
+            throw error;
+          }
+        })();
+
+        if (signal.aborted) {
+          return "fail";
+        }
+
+        confirming.current = true;
+
+        const result = await stripe.confirmCardPayment(
+          clientSecret,
+          { payment_method: paymentResponse.paymentMethod.id },
+          { handleActions: false }
+        );
+
+        if (result.error) {
+          onStateChange({ error: result.error, status: "failed" });
+
+          return "fail";
+        }
+
+        if (result.paymentIntent.status !== "requires_action") {
+          onStateChange({
+            paymentIntent: result.paymentIntent,
+            status: "succeeded",
+          });
+        } else if (timedOut.current) {
+          // The sheet was completed while confirming, so the next action can't wait for it
+          void authenticate(clientSecret);
+        } else {
+          requiresAction.set(event, clientSecret);
+        }
+
+        return "success";
+      }),
+    { ...eventOptions, timeout }
+  );
+};
@@ -1,17 +1,26 @@
-import "promise-any-polyfill";
-
 import EventEmitter from "events";
 
-import { beforeEach, describe, expect, it } from "@jest/globals";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
 import { act, renderHook } from "@testing-library/react-hooks";
+import { createElement } from "react";
+import { create } from "react-test-renderer";
 
 import {
+  PaymentRequestButton,
+  PaymentRequestProvider,
+  setDefaultTimeout,
+  usePaymentMethod,
   usePaymentRequest,
+  usePaymentRequestButtonElement,
+  usePaymentRequestContext,
+  usePaymentRequestPaymentIntent,
   usePaymentRequestPaymentMethod,
   usePaymentRequestShippingAddress,
   usePaymentRequestShippingOption,
+  useShippingAddress,
 } from ".";
 
+import type { PaymentRequestButtonProps, PaymentRequestEventContext } from ".";
 import type {
   CanMakePaymentResult,
   PaymentRequest,
@@ -26,7 +35,33 @@ import type {
   PaymentRequestUpdateDetails,
   PaymentRequestUpdateDetailsStatus,
   Stripe,
+  StripeElements,
+  StripePaymentRequestButtonElement,
+  StripePaymentRequestButtonElementOptions,
 } from "@stripe/stripe-js";
+import type {
+  ButtonHTMLAttributes,
+  FunctionComponent,
+  MouseEvent,
+} from "react";
+import type { ReactTestRenderer } from "react-test-renderer";
+
+const deferred = <T>() => {
+  let resolveDeferred: (value: T) => void = () => {};
+  const promise = new Promise<T>((resolve) => {
+    resolveDeferred = resolve;
+  });
+
+  return { promise, resolve: resolveDeferred };
+};
+
+// Only "success" statuses wait for a render, anything else is updated right away
+const nextUpdateWith = async (event: {
+  updateWith: jest.Mock<void, [PaymentRequestUpdateDetails]>;
+}) =>
+  new Promise<PaymentRequestUpdateDetails>((resolve) => {
+    event.updateWith.mockImplementationOnce(resolve);
+  });
 
 let options: PaymentRequestOptions = {
   country: "US",
@@ -45,7 +80,7 @@ let options: PaymentRequestOptions = {
     label: "Total",
   },
 };
-let canMakePayment: jest.Mock<Promise<CanMakePaymentResult>, []>;
+let canMakePayment: jest.Mock<Promise<CanMakePaymentResult | null>, []>;
 let isShowing: jest.Mock<boolean, []>;
 let paymentRequest: PaymentRequest;
 let paymentRequestEmitter: EventEmitter;
@@ -82,8 +117,10 @@ describe("usePaymentRequest", () => {
     expect(result.current).toHaveProperty("0", undefined);
   });
 
-  it("returns paymentRequest", () => {
-    const { result } = renderHook(() => usePaymentRequest(stripe, options));
+  it("returns paymentRequest", async () => {
+    const { result, waitForNextUpdate } = renderHook(() =>
+      usePaymentRequest(stripe, options)
+    );
 
     expect(result.current).toHaveProperty("0", paymentRequest);
     expect(result.current).toHaveProperty("1.canMakePayment", {
@@ -103,6 +140,8 @@ describe("usePaymentRequest", () => {
         pending: true,
       },
     });
+
+    await waitForNextUpdate();
   });
 
   it("returns canMakePayment", async () => {
@@ -128,6 +167,24 @@ describe("usePaymentRequest", () => {
     });
   });
 
+  it("returns the available wallets", async () => {
+    canMakePayment.mockReturnValueOnce(
+      Promise.resolve({ applePay: false, googlePay: true })
+    );
+
+    const { result, waitForNextUpdate } = renderHook(() =>
+      usePaymentRequest(stripe, options)
+    );
+
+    expect(result.current).toHaveProperty("1.isAvailable", false);
+
+    await waitForNextUpdate();
+
+    expect(result.current).toHaveProperty("1.availableWallets", ["googlePay"]);
+    expect(result.current).toHaveProperty("1.isAvailable", true);
+    expect(result.current).toHaveProperty("1.preferredWallet", "googlePay");
+  });
+
   it("setOpen updates paymentRequest and opens it", async () => {
     canMakePayment.mockReturnValueOnce(
       Promise.resolve({
@@ -261,6 +318,305 @@ describe("usePaymentRequest", () => {
     expect(result.current).toHaveProperty("1.open", false);
   });
 
+  describe("status", () => {
+    it("is checking without stripe", () => {
+      const { result } = renderHook(() =>
+        usePaymentRequest(undefined, options)
+      );
+
+      expect(result.current).toHaveProperty("1.status", "checking");
+    });
+
+    it("is unsupported without a wallet", async () => {
+      canMakePayment.mockReturnValueOnce(Promise.resolve(null));
+
+      const { result, waitForNextUpdate } = renderHook(() =>
+        usePaymentRequest(stripe, options)
+      );
+
+      expect(result.current).toHaveProperty("1.status", "checking");
+
+      await waitForNextUpdate();
+
+      expect(result.current).toHaveProperty("1.status", "unsupported");
+    });
+
+    it("follows setOpen and cancel", async () => {
+      const onStatusChange = jest.fn();
+      const { result, waitForNextUpdate } = renderHook(() =>
+        usePaymentRequest(stripe, options, { onStatusChange })
+      );
+
+      await waitForNextUpdate();
+
+      expect(result.current).toHaveProperty("1.status", "ready");
+
+      act(() => result.current[1].setOpen(true));
+      isShowing.mockReturnValue(true);
+
+      expect(result.current).toHaveProperty("1.status", "showing");
+
+      act(() => void paymentRequestEmitter.emit("cancel"));
+      isShowing.mockReturnValue(false);
+
+      expect(result.current).toHaveProperty("1.status", "cancelled");
+
+      act(() => result.current[1].setOpen(true));
+      isShowing.mockReturnValue(true);
+      act(() => result.current[1].setOpen(false));
+
+      expect(result.current).toHaveProperty("1.status", "cancelled");
+
+      expect(onStatusChange.mock.calls).toEqual([
+        ["ready", "checking"],
+        ["showing", "ready"],
+        ["cancelled", "showing"],
+        ["showing", "cancelled"],
+        ["cancelled", "showing"],
+      ]);
+    });
+
+    it("reports transitions batched into one render", async () => {
+      const onStatusChange = jest.fn();
+      const { result, waitForNextUpdate } = renderHook(() =>
+        usePaymentRequest(stripe, options, { onStatusChange })
+      );
+
+      await waitForNextUpdate();
+
+      act(() => {
+        result.current[1].setOpen(true);
+        isShowing.mockReturnValue(true);
+        result.current[1].setOpen(false);
+      });
+
+      expect(result.current).toHaveProperty("1.status", "cancelled");
+      expect(onStatusChange.mock.calls).toEqual([
+        ["ready", "checking"],
+        ["showing", "ready"],
+        ["cancelled", "showing"],
+      ]);
+    });
+
+    it("follows shipping events", async () => {
+      const shipping = deferred<PaymentRequestUpdateDetailsStatus>();
+      const { result, waitForNextUpdate } = renderHook(() => {
+        const [paymentRequest, rest] = usePaymentRequest(stripe, options);
+
+        usePaymentRequestShippingAddress(
+          paymentRequest,
+          options,
+          async () => shipping.promise
+        );
+
+        return rest;
+      });
+
+      await waitForNextUpdate();
+
+      act(() => result.current.setOpen(true));
+      isShowing.mockReturnValue(true);
+
+      act(
+        () =>
+          void paymentRequestEmitter.emit("shippingaddresschange", {
+            shippingAddress: {},
+            updateWith: jest.fn(),
+          })
+      );
+
+      expect(result.current).toHaveProperty("status", "updating");
+
+      shipping.resolve("success");
+      await waitForNextUpdate();
+
+      expect(result.current).toHaveProperty("status", "showing");
+    });
+
+    [
+      { completeStatus: "success", status: "succeeded" },
+      { completeStatus: "fail", status: "failed" },
+      { completeStatus: "invalid_payer_name", status: "failed" },
+    ].forEach(({ completeStatus, status }) => {
+      it(`is ${status} after completing with ${completeStatus}`, async () => {
+        const payment = deferred<PaymentRequestCompleteStatus>();
+        const { result, waitForNextUpdate } = renderHook(() => {
+          const [paymentRequest, rest] = usePaymentRequest(stripe, options);
+
+          usePaymentRequestPaymentMethod(
+            paymentRequest,
+            async () => payment.promise
+          );
+
+          return rest;
+        });
+
+        await waitForNextUpdate();
+
+        act(() => result.current.setOpen(true));
+        isShowing.mockReturnValue(true);
+
+        act(
+          () =>
+            void paymentRequestEmitter.emit("paymentmethod", {
+              complete: jest.fn(),
+            })
+        );
+
+        expect(result.current).toHaveProperty("status", "processing");
+
+        payment.resolve(completeStatus as PaymentRequestCompleteStatus);
+        await waitForNextUpdate();
+
+        expect(result.current).toHaveProperty("status", status);
+        expect(result.current).toHaveProperty("open", false);
+      });
+    });
+  });
+
+  describe("applyShippingOption", () => {
+    const ground = { amount: 500, detail: "", id: "ground", label: "Ground" };
+    const express = {
+      amount: 1500,
+      detail: "1 day",
+      id: "express",
+      label: "Express",
+    };
+    const shippingOptions = [ground, express];
+
+    it("updates the shipping hooks with the selected shipping option", async () => {
+      const details = { ...options, requestShipping: true, shippingOptions };
+      const event = {
+        shippingOption: express,
+        updateWith: jest.fn<void, [PaymentRequestUpdateDetails]>(),
+      };
+      const { result, waitForNextUpdate } = renderHook(() => {
+        const [paymentRequest, rest] = usePaymentRequest(stripe, details, {
+          applyShippingOption: true,
+        });
+
+        usePaymentRequestShippingOption(paymentRequest, details, async () =>
+          Promise.resolve("success")
+        );
+
+        return rest;
+      });
+
+      await waitForNextUpdate();
+
+      act(() => result.current.setOpen(true));
+      isShowing.mockReturnValue(true);
+
+      const updated = nextUpdateWith(event);
+
+      await act(async () => {
+        paymentRequestEmitter.emit("shippingoptionchange", event);
+        await updated;
+      });
+
+      expect(event.updateWith).toHaveBeenCalledWith({
+        displayItems: [
+          ...(options.displayItems ?? []),
+          { amount: 1500, label: "Express" },
+        ],
+        shippingOptions: [express, ground],
+        status: "success",
+        total: { amount: 1600, label: "Total" },
+      });
+      expect(event.updateWith).toHaveBeenCalledTimes(1);
+      expect(result.current).toHaveProperty("shippingOption", express);
+    });
+  });
+
+  describe("requestPayment", () => {
+    it("rejects when unavailable", async () => {
+      const { result, waitForNextUpdate } = renderHook(() =>
+        usePaymentRequest(stripe, options)
+      );
+
+      await expect(result.current[1].requestPayment()).rejects.toThrow(
+        "requestPayment can't show a paymentRequest that's unavailable or already showing"
+      );
+      expect(paymentRequest.show).not.toHaveBeenCalled();
+
+      await waitForNextUpdate();
+    });
+
+    it("opens and resolves with the payment event", async () => {
+      const complete = jest.fn();
+      const { result, waitForNextUpdate } = renderHook(() =>
+        usePaymentRequest(stripe, options)
+      );
+
+      await waitForNextUpdate();
+
+      let payment: ReturnType<typeof result.current[1]["requestPayment"]>;
+      act(() => {
+        payment = result.current[1].requestPayment();
+      });
+      isShowing.mockReturnValue(true);
+
+      expect(paymentRequest.show).toHaveBeenCalled();
+      expect(result.current).toHaveProperty("1.status", "showing");
+
+      act(() => void paymentRequestEmitter.emit("paymentmethod", { complete }));
+
+      const paymentResult = await payment!;
+
+      expect(paymentResult).toHaveProperty("type", "paymentmethod");
+      expect(result.current).toHaveProperty("1.status", "processing");
+      expect(paymentRequestEmitter.listenerCount("paymentmethod")).toBe(0);
+
+      act(() => {
+        if (paymentResult.type === "paymentmethod") {
+          paymentResult.event.complete("success");
+        }
+      });
+
+      expect(complete).toHaveBeenCalledWith("success");
+      expect(result.current).toHaveProperty("1.status", "succeeded");
+      expect(result.current).toHaveProperty("1.open", false);
+    });
+
+    it("resolves with other payment events", async () => {
+      const { result, waitForNextUpdate } = renderHook(() =>
+        usePaymentRequest(stripe, options)
+      );
+
+      await waitForNextUpdate();
+
+      let payment: Promise<unknown>;
+      act(() => {
+        payment = result.current[1].requestPayment("token");
+      });
+
+      expect(paymentRequestEmitter.listenerCount("paymentmethod")).toBe(0);
+
+      act(() => void paymentRequestEmitter.emit("token", { complete() {} }));
+
+      await expect(payment!).resolves.toHaveProperty("type", "token");
+    });
+
+    it("resolves with cancel", async () => {
+      const { result, waitForNextUpdate } = renderHook(() =>
+        usePaymentRequest(stripe, options)
+      );
+
+      await waitForNextUpdate();
+
+      let payment: Promise<unknown>;
+      act(() => {
+        payment = result.current[1].requestPayment();
+      });
+
+      act(() => void paymentRequestEmitter.emit("cancel"));
+
+      await expect(payment!).resolves.toStrictEqual({ type: "cancel" });
+      expect(paymentRequestEmitter.listenerCount("paymentmethod")).toBe(0);
+      expect(result.current).toHaveProperty("1.status", "cancelled");
+    });
+  });
+
   it("creates a new paymentRequest with specific option changes", async () => {
     options = {
       country: "US",
@@ -327,6 +683,97 @@ describe("usePaymentRequest", () => {
     };
     rerender([stripe, options]);
     expect(stripe.paymentRequest).toHaveBeenCalledTimes(7);
+
+    await waitForNextUpdate();
+  });
+
+  describe("re-creation", () => {
+    const renderOpenPaymentRequest = async (
+      hookOptions?: Parameters<typeof usePaymentRequest>[2]
+    ) => {
+      const rendered = renderHook(
+        (props) => usePaymentRequest(stripe, props, hookOptions),
+        { initialProps: options }
+      );
+
+      await rendered.waitForNextUpdate();
+      act(() => rendered.result.current[1].setOpen(true));
+      isShowing.mockReturnValue(true);
+
+      return rendered;
+    };
+
+    it("aborts the showing sheet and starts over", async () => {
+      const { rerender, result, waitForNextUpdate } =
+        await renderOpenPaymentRequest();
+
+      rerender({ ...options, country: "GB" });
+
+      expect(paymentRequest.abort).toHaveBeenCalledTimes(1);
+      expect(stripe.paymentRequest).toHaveBeenCalledTimes(2);
+      expect(result.current).toHaveProperty("1.open", false);
+      expect(result.current).toHaveProperty("1.status", "checking");
+
+      await waitForNextUpdate();
+
+      expect(canMakePayment).toHaveBeenCalledTimes(2);
+      expect(result.current).toHaveProperty("1.status", "ready");
+    });
+
+    it("resolves requestPayment with a cancel", async () => {
+      const { rerender, result, waitForNextUpdate } = renderHook(
+        (props) => usePaymentRequest(stripe, props),
+        { initialProps: options }
+      );
+
+      await waitForNextUpdate();
+
+      let payment: ReturnType<typeof result.current[1]["requestPayment"]>;
+      act(() => {
+        payment = result.current[1].requestPayment();
+      });
+
+      rerender({ ...options, country: "GB" });
+
+      await expect(payment!).resolves.toStrictEqual({ type: "cancel" });
+      await waitForNextUpdate();
+    });
+
+    it("aborts the showing sheet and removes its listeners on unmount", async () => {
+      const { unmount } = await renderOpenPaymentRequest();
+
+      unmount();
+
+      expect(paymentRequest.abort).toHaveBeenCalledTimes(1);
+      expect(paymentRequestEmitter.eventNames()).toHaveLength(0);
+    });
+
+    it("waits for the sheet to close with deferRecreation", async () => {
+      const { rerender, result, waitForNextUpdate } =
+        await renderOpenPaymentRequest({
+          deferRecreation: true,
+        });
+
+      rerender({ ...options, country: "GB" });
+
+      expect(paymentRequest.abort).not.toHaveBeenCalled();
+      expect(stripe.paymentRequest).toHaveBeenCalledTimes(1);
+      expect(result.current).toHaveProperty("1.open", true);
+
+      isShowing.mockReturnValue(false);
+      act(() => {
+        paymentRequestEmitter.emit("cancel");
+      });
+
+      expect(stripe.paymentRequest).toHaveBeenCalledTimes(2);
+      expect(stripe.paymentRequest).toHaveBeenLastCalledWith(
+        expect.objectContaining({ country: "GB" })
+      );
+
+      await waitForNextUpdate();
+
+      expect(result.current).toHaveProperty("1.status", "ready");
+    });
   });
 });
 
@@ -373,7 +820,10 @@ const shippingOption: PaymentRequestShippingOption = {
     ) & {
       updateWith: jest.Mock<void, [PaymentRequestUpdateDetails]>;
     };
-    let onEvent: jest.Mock<Promise<PaymentRequestUpdateDetailsStatus>, []>;
+    let onEvent: jest.Mock<
+      Promise<PaymentRequestUpdateDetails | PaymentRequestUpdateDetailsStatus>,
+      []
+    >;
 
     beforeEach(() => {
       event = {
@@ -381,7 +831,12 @@ const shippingOption: PaymentRequestShippingOption = {
         updateWith: jest.fn<void, [PaymentRequestUpdateDetails]>(),
       };
 
-      onEvent = jest.fn<Promise<PaymentRequestUpdateDetailsStatus>, []>();
+      onEvent = jest.fn<
+        Promise<
+          PaymentRequestUpdateDetails | PaymentRequestUpdateDetailsStatus
+        >,
+        []
+      >();
     });
 
     it("does nothing with undefined paymentRequest", () => {
@@ -421,88 +876,373 @@ const shippingOption: PaymentRequestShippingOption = {
     });
 
     it(`fails without details`, async () => {
-      const { waitForNextUpdate } = renderHook(() =>
-        useShippingHook(paymentRequest, updateDetails, onEvent)
-      );
+      renderHook(() => useShippingHook(paymentRequest, updateDetails, onEvent));
+      const updated = nextUpdateWith(event);
 
       onEvent.mockReturnValueOnce(Promise.resolve("fail"));
 
       act(() => void paymentRequestEmitter.emit(eventName, event));
 
-      await waitForNextUpdate();
+      await updated;
 
       expect(event.updateWith).toHaveBeenLastCalledWith({ status: "fail" });
     });
-  });
-});
-
-describe("usePaymentRequestPaymentMethod", () => {
-  const eventName = "paymentmethod";
-  const paymentResponse: Omit<PaymentRequestPaymentMethodEvent, "complete"> = {
-    methodName: "applePay",
-    walletName: "applePay",
-    paymentMethod: {
-      id: "pm_1KfA8UEcNkU7uOokoK0r0mWt",
-      object: "payment_method",
-      billing_details: {
-        address: {
-          city: "Sydney",
-          country: "AU",
-          line1: "255 Morrison Rd",
-          line2: null,
-          postal_code: "2112",
-          state: "NSW",
-        },
-        email: "jenny@example.com",
-        name: null,
-        phone: "+15555555555",
-      },
-      created: 123456789,
-      customer: null,
-      livemode: false,
-      metadata: {
-        order_id: "123456789",
-      },
-      type: "card",
-    },
-  };
-  let event: PaymentRequestEvent & {
-    complete: jest.Mock<void, [PaymentRequestCompleteStatus]>;
-  };
-  let onEvent: jest.Mock<
-    Promise<PaymentRequestCompleteStatus>,
-    [Omit<PaymentRequestPaymentMethodEvent, "complete">]
-  >;
-
-  beforeEach(() => {
-    event = {
-      ...paymentResponse,
-      complete: jest.fn<void, [PaymentRequestCompleteStatus]>(),
-    };
 
-    onEvent = jest.fn<
-      Promise<PaymentRequestCompleteStatus>,
-      [Omit<PaymentRequestPaymentMethodEvent, "complete">]
-    >();
-  });
+    it(`updates with returned details`, async () => {
+      const details: PaymentRequestUpdateDetails = {
+        displayItems: [{ amount: 995, label: "Shipping" }],
+        shippingOptions: [shippingOption],
+        status: "success",
+        total: { amount: 1995, label: "Total" },
+      };
 
-  it("does nothing with undefined paymentRequest", () => {
-    renderHook(() => usePaymentRequestPaymentMethod(undefined, onEvent));
+      const { result } = renderHook(() =>
+        useShippingHook(paymentRequest, updateDetails, onEvent)
+      );
+      const updated = nextUpdateWith(event);
 
-    expect(onEvent).not.toHaveBeenCalled();
-  });
+      onEvent.mockReturnValueOnce(Promise.resolve(details));
 
-  it("does not register without handler", () => {
-    renderHook(() => usePaymentRequestPaymentMethod(paymentRequest));
+      act(() => void paymentRequestEmitter.emit(eventName, event));
 
-    expect(paymentRequest.on).not.toHaveBeenCalled();
-    expect(paymentRequest.off).not.toHaveBeenCalled();
-  });
+      await updated;
 
-  it("does nothing before event", () => {
-    renderHook(() => usePaymentRequestPaymentMethod(paymentRequest, onEvent));
+      expect(event.updateWith).toHaveBeenCalledTimes(1);
+      expect(event.updateWith).toHaveBeenCalledWith(details);
+      expect(result.all).toHaveLength(1);
+    });
 
-    expect(onEvent).not.toHaveBeenCalled();
+    it(`updates overlapping events once and in order`, async () => {
+      const first = deferred<PaymentRequestUpdateDetails>();
+      const second = deferred<PaymentRequestUpdateDetailsStatus>();
+      const secondEvent = {
+        ...eventBase,
+        updateWith: jest.fn<void, [PaymentRequestUpdateDetails]>(),
+      };
+      const { waitForNextUpdate } = renderHook(() =>
+        useShippingHook(paymentRequest, updateDetails, onEvent)
+      );
+
+      onEvent
+        .mockReturnValueOnce(first.promise)
+        .mockReturnValueOnce(second.promise);
+
+      act(() => void paymentRequestEmitter.emit(eventName, event));
+      act(() => void paymentRequestEmitter.emit(eventName, secondEvent));
+
+      second.resolve("success");
+      await second.promise;
+
+      expect(event.updateWith).not.toHaveBeenCalled();
+      expect(secondEvent.updateWith).not.toHaveBeenCalled();
+
+      first.resolve({ shippingOptions: [], status: "success" });
+      await waitForNextUpdate();
+
+      expect(event.updateWith).toHaveBeenCalledTimes(1);
+      expect(event.updateWith).toHaveBeenCalledWith({ status: "success" });
+      expect(secondEvent.updateWith).toHaveBeenCalledTimes(1);
+      expect(secondEvent.updateWith).toHaveBeenCalledWith({
+        ...updateDetails,
+        status: "success",
+      });
+      expect(event.updateWith.mock.invocationCallOrder[0]).toBeLessThan(
+        secondEvent.updateWith.mock.invocationCallOrder[0]!
+      );
+    });
+
+    it("passes an AbortSignal", async () => {
+      const { waitForNextUpdate } = renderHook(() =>
+        useShippingHook(paymentRequest, updateDetails, onEvent)
+      );
+
+      onEvent.mockReturnValueOnce(Promise.resolve("success"));
+
+      act(() => void paymentRequestEmitter.emit(eventName, event));
+
+      await waitForNextUpdate();
+
+      expect(onEvent).toHaveBeenCalledWith(Object.values(eventBase)[0], {
+        signal: expect.objectContaining({ aborted: false }),
+      });
+    });
+
+    it("fails and aborts after timeout", async () => {
+      const onTimeout = jest.fn();
+
+      renderHook(() =>
+        useShippingHook(paymentRequest, updateDetails, onEvent, {
+          onTimeout,
+          timeout: 10,
+        })
+      );
+      const updated = nextUpdateWith(event);
+
+      onEvent.mockReturnValueOnce(new Promise(() => {}));
+
+      act(() => void paymentRequestEmitter.emit(eventName, event));
+      act(() => void jest.advanceTimersByTime(10));
+
+      await updated;
+
+      expect(event.updateWith).toHaveBeenLastCalledWith({ status: "fail" });
+      expect(onTimeout).toHaveBeenCalledWith(event);
+      expect(onEvent).toHaveBeenCalledWith(Object.values(eventBase)[0], {
+        signal: expect.objectContaining({ aborted: true }),
+      });
+    });
+
+    it("fails right away when rejecting", async () => {
+      renderHook(() => useShippingHook(paymentRequest, updateDetails, onEvent));
+      const updated = nextUpdateWith(event);
+
+      onEvent.mockReturnValueOnce(Promise.reject(new Error("Oops")));
+
+      act(() => void paymentRequestEmitter.emit(eventName, event));
+
+      await updated;
+
+      expect(event.updateWith).toHaveBeenLastCalledWith({ status: "fail" });
+    });
+
+    it("maps errors through onError", async () => {
+      const error = new Error("Oops");
+      const onError = jest.fn(() => "invalid_shipping_address" as const);
+
+      renderHook(() =>
+        useShippingHook(paymentRequest, updateDetails, onEvent, { onError })
+      );
+      const updated = nextUpdateWith(event);
+
+      onEvent.mockReturnValueOnce(Promise.reject(error));
+
+      act(() => void paymentRequestEmitter.emit(eventName, event));
+
+      await updated;
+
+      expect(onError).toHaveBeenCalledWith(error, event);
+      expect(event.updateWith).toHaveBeenLastCalledWith({
+        status: "invalid_shipping_address",
+      });
+    });
+
+    describe("setDefaultTimeout", () => {
+      afterEach(() => setDefaultTimeout(2000));
+
+      it("fails after default timeout", async () => {
+        setDefaultTimeout(10);
+
+        renderHook(() =>
+          useShippingHook(paymentRequest, updateDetails, onEvent)
+        );
+        const updated = nextUpdateWith(event);
+
+        onEvent.mockReturnValueOnce(new Promise(() => {}));
+
+        act(() => void paymentRequestEmitter.emit(eventName, event));
+        act(() => void jest.advanceTimersByTime(10));
+
+        await updated;
+
+        expect(event.updateWith).toHaveBeenLastCalledWith({ status: "fail" });
+      });
+    });
+  });
+});
+
+describe("interleaved shipping events", () => {
+  const updateDetails = {
+    total: {
+      amount: 100,
+      label: "Total",
+    },
+  };
+
+  it("updates every event exactly once", async () => {
+    const address = deferred<PaymentRequestUpdateDetailsStatus>();
+    const addressEvent = {
+      shippingAddress,
+      updateWith: jest.fn<void, [PaymentRequestUpdateDetails]>(),
+    };
+    const optionEvent = {
+      shippingOption,
+      updateWith: jest.fn<void, [PaymentRequestUpdateDetails]>(),
+    };
+    const { waitForNextUpdate } = renderHook(() => {
+      usePaymentRequestShippingAddress(
+        paymentRequest,
+        updateDetails,
+        async () => address.promise
+      );
+      usePaymentRequestShippingOption(paymentRequest, updateDetails, async () =>
+        Promise.resolve("success")
+      );
+    });
+
+    act(
+      () =>
+        void paymentRequestEmitter.emit("shippingaddresschange", addressEvent)
+    );
+    act(
+      () => void paymentRequestEmitter.emit("shippingoptionchange", optionEvent)
+    );
+
+    await waitForNextUpdate();
+
+    expect(addressEvent.updateWith).not.toHaveBeenCalled();
+    expect(optionEvent.updateWith).toHaveBeenCalledTimes(1);
+
+    const addressUpdated = nextUpdateWith(addressEvent);
+
+    address.resolve("invalid_shipping_address");
+    await addressUpdated;
+
+    expect(addressEvent.updateWith).toHaveBeenCalledTimes(1);
+    expect(addressEvent.updateWith).toHaveBeenCalledWith({
+      status: "invalid_shipping_address",
+    });
+    expect(optionEvent.updateWith).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("normalized shipping addresses", () => {
+  const updateDetails = {
+    total: {
+      amount: 100,
+      label: "Total",
+    },
+  };
+
+  it("calls back with the normalized address", async () => {
+    const onShippingAddressChange = jest.fn(async () =>
+      Promise.resolve("success" as const)
+    );
+    const event = {
+      shippingAddress: { country: "ca", region: "Ontario" },
+      updateWith: jest.fn<void, [PaymentRequestUpdateDetails]>(),
+    };
+    const { waitForNextUpdate } = renderHook(() =>
+      usePaymentRequestShippingAddress(
+        paymentRequest,
+        updateDetails,
+        onShippingAddressChange,
+        { normalizeAddress: {} }
+      )
+    );
+
+    act(() => void paymentRequestEmitter.emit("shippingaddresschange", event));
+    await waitForNextUpdate();
+
+    expect(onShippingAddressChange).toHaveBeenCalledWith(
+      { country: "CA", region: "ON" },
+      expect.anything()
+    );
+    expect(event.updateWith).toHaveBeenCalledWith({
+      ...updateDetails,
+      status: "success",
+    });
+  });
+
+  it("rejects addresses outside the allowed countries", async () => {
+    const onShippingAddressChange = jest.fn();
+    const event = {
+      shippingAddress: { country: "GB" },
+      updateWith: jest.fn<void, [PaymentRequestUpdateDetails]>(),
+    };
+    const updated = nextUpdateWith(event);
+
+    renderHook(() =>
+      usePaymentRequestShippingAddress(
+        paymentRequest,
+        updateDetails,
+        onShippingAddressChange,
+        { normalizeAddress: { allowedCountries: ["US", "CA"] } }
+      )
+    );
+
+    act(() => void paymentRequestEmitter.emit("shippingaddresschange", event));
+    await updated;
+
+    expect(onShippingAddressChange).not.toHaveBeenCalled();
+    expect(event.updateWith).toHaveBeenCalledWith({
+      status: "invalid_shipping_address",
+    });
+  });
+});
+
+describe("usePaymentRequestPaymentMethod", () => {
+  const eventName = "paymentmethod";
+  const paymentResponse: Omit<PaymentRequestPaymentMethodEvent, "complete"> = {
+    methodName: "applePay",
+    walletName: "applePay",
+    paymentMethod: {
+      id: "pm_1KfA8UEcNkU7uOokoK0r0mWt",
+      object: "payment_method",
+      billing_details: {
+        address: {
+          city: "Sydney",
+          country: "AU",
+          line1: "255 Morrison Rd",
+          line2: null,
+          postal_code: "2112",
+          state: "NSW",
+        },
+        email: "jenny@example.com",
+        name: null,
+        phone: "+15555555555",
+      },
+      created: 123456789,
+      customer: null,
+      livemode: false,
+      metadata: {
+        order_id: "123456789",
+      },
+      type: "card",
+    },
+  };
+  let event: PaymentRequestEvent & {
+    complete: jest.Mock<void, [PaymentRequestCompleteStatus]>;
+  };
+  let onEvent: jest.Mock<
+    Promise<PaymentRequestCompleteStatus>,
+    [
+      Omit<PaymentRequestPaymentMethodEvent, "complete">,
+      PaymentRequestEventContext
+    ]
+  >;
+
+  beforeEach(() => {
+    event = {
+      ...paymentResponse,
+      complete: jest.fn<void, [PaymentRequestCompleteStatus]>(),
+    };
+
+    onEvent = jest.fn<
+      Promise<PaymentRequestCompleteStatus>,
+      [
+        Omit<PaymentRequestPaymentMethodEvent, "complete">,
+        PaymentRequestEventContext
+      ]
+    >();
+  });
+
+  it("does nothing with undefined paymentRequest", () => {
+    renderHook(() => usePaymentRequestPaymentMethod(undefined, onEvent));
+
+    expect(onEvent).not.toHaveBeenCalled();
+  });
+
+  it("does not register without handler", () => {
+    renderHook(() => usePaymentRequestPaymentMethod(paymentRequest));
+
+    expect(paymentRequest.on).not.toHaveBeenCalled();
+    expect(paymentRequest.off).not.toHaveBeenCalled();
+  });
+
+  it("does nothing before event", () => {
+    renderHook(() => usePaymentRequestPaymentMethod(paymentRequest, onEvent));
+
+    expect(onEvent).not.toHaveBeenCalled();
   });
 
   it(`succeeds`, (done) => {
@@ -530,4 +1270,845 @@ describe("usePaymentRequestPaymentMethod", () => {
 
     act(() => void paymentRequestEmitter.emit(eventName, event));
   });
+
+  it(`fails when throwing`, (done) => {
+    const error = new Error("Oops");
+    const onError = jest.fn(() => {});
+
+    renderHook(() =>
+      usePaymentRequestPaymentMethod(paymentRequest, onEvent, { onError })
+    );
+
+    onEvent.mockImplementationOnce(() => {
+      throw error;
+    });
+
+    event.complete.mockImplementation((value) => {
+      expect(value).toBe("fail");
+      expect(onError).toHaveBeenCalledWith(error, event);
+      done();
+    });
+
+    act(() => void paymentRequestEmitter.emit(eventName, event));
+  });
+
+  it(`maps errors through onError`, (done) => {
+    renderHook(() =>
+      usePaymentRequestPaymentMethod(paymentRequest, onEvent, {
+        onError: async () => Promise.resolve("invalid_payer_email"),
+      })
+    );
+
+    onEvent.mockReturnValueOnce(Promise.reject(new Error("Oops")));
+
+    event.complete.mockImplementation((value) => {
+      expect(value).toBe("invalid_payer_email");
+      done();
+    });
+
+    act(() => void paymentRequestEmitter.emit(eventName, event));
+  });
+
+  it(`fails when onError rejects too`, (done) => {
+    renderHook(() =>
+      usePaymentRequestPaymentMethod(paymentRequest, onEvent, {
+        onError: async () => Promise.reject(new Error("onError boom")),
+      })
+    );
+
+    onEvent.mockReturnValueOnce(Promise.reject(new Error("Oops")));
+
+    event.complete.mockImplementation((value) => {
+      expect(value).toBe("fail");
+      done();
+    });
+
+    act(() => void paymentRequestEmitter.emit(eventName, event));
+  });
+
+  it(`doesn't call onError after timeout`, (done) => {
+    const onError = jest.fn(() => {});
+
+    renderHook(() =>
+      usePaymentRequestPaymentMethod(paymentRequest, onEvent, {
+        onError,
+        timeout: 10,
+      })
+    );
+
+    onEvent.mockImplementationOnce(
+      async (value, { signal }) =>
+        new Promise<PaymentRequestCompleteStatus>((resolve, reject) =>
+          signal.addEventListener("abort", () => reject(new Error("Aborted")))
+        )
+    );
+
+    event.complete.mockImplementation((value) => {
+      expect(value).toBe("fail");
+      expect(onError).not.toHaveBeenCalled();
+      done();
+    });
+
+    act(() => void paymentRequestEmitter.emit(eventName, event));
+    act(() => void jest.advanceTimersByTime(10));
+  });
+
+  it(`fails after timeout`, (done) => {
+    const onTimeout = jest.fn();
+
+    renderHook(() =>
+      usePaymentRequestPaymentMethod(paymentRequest, onEvent, {
+        onTimeout,
+        timeout: 10,
+      })
+    );
+
+    onEvent.mockReturnValueOnce(new Promise(() => {}));
+
+    event.complete.mockImplementation((value) => {
+      expect(value).toBe("fail");
+      expect(onTimeout).toHaveBeenCalledWith(event);
+      done();
+    });
+
+    act(() => void paymentRequestEmitter.emit(eventName, event));
+    act(() => void jest.advanceTimersByTime(10));
+  });
+
+  it(`does not time out once settled`, (done) => {
+    const onTimeout = jest.fn();
+
+    renderHook(() =>
+      usePaymentRequestPaymentMethod(paymentRequest, onEvent, {
+        onTimeout,
+        timeout: 10,
+      })
+    );
+
+    onEvent.mockReturnValueOnce(Promise.resolve("success"));
+
+    event.complete.mockImplementation((value) => {
+      jest.advanceTimersByTime(10);
+
+      expect(value).toBe("success");
+      expect(onTimeout).not.toHaveBeenCalled();
+      done();
+    });
+
+    act(() => void paymentRequestEmitter.emit(eventName, event));
+  });
+
+  it("completes with invalid_payer_* before calling the handler", (done) => {
+    renderHook(() =>
+      usePaymentRequestPaymentMethod(paymentRequest, onEvent, {
+        validatePayer: { requestPayerEmail: true, requestPayerPhone: true },
+      })
+    );
+
+    event.complete.mockImplementation((value) => {
+      expect(value).toBe("invalid_payer_phone");
+      expect(onEvent).not.toHaveBeenCalled();
+      done();
+    });
+
+    act(
+      () =>
+        void paymentRequestEmitter.emit(eventName, {
+          ...event,
+          payerEmail: "jenny@example.com",
+          payerPhone: "555-5555",
+        })
+    );
+  });
+
+  it("calls the handler with the normalized payer details", (done) => {
+    renderHook(() =>
+      usePaymentRequestPaymentMethod(paymentRequest, onEvent, {
+        validatePayer: { requestPayerName: true },
+      })
+    );
+
+    onEvent.mockReturnValueOnce(Promise.resolve("success"));
+
+    event.complete.mockImplementation((value) => {
+      expect(value).toBe("success");
+      expect(onEvent).toHaveBeenCalledWith(
+        { ...paymentResponse, payerName: "Jenny Rosen" },
+        expect.anything()
+      );
+      done();
+    });
+
+    act(
+      () =>
+        void paymentRequestEmitter.emit(eventName, {
+          ...event,
+          payerName: " Jenny  Rosen",
+        })
+    );
+  });
+});
+
+describe("usePaymentRequestPaymentIntent", () => {
+  const clientSecret = "pi_123_secret_456";
+  const paymentIntent = { id: "pi_123", status: "succeeded" };
+  const error = { message: "Your card was declined.", type: "card_error" };
+  let confirmCardPayment: jest.Mock;
+  let event: { complete: jest.Mock; paymentMethod: { id: string } };
+  let getClientSecret: jest.Mock<Promise<string>, []>;
+  let stripe: Stripe;
+
+  beforeEach(() => {
+    confirmCardPayment = jest.fn();
+    event = { complete: jest.fn(), paymentMethod: { id: "pm_123" } };
+    getClientSecret = jest.fn(async () => Promise.resolve(clientSecret));
+    stripe = { confirmCardPayment } as unknown as Stripe;
+  });
+
+  // Lets the callback's promises settle before and after the timers
+  const advanceTimersByTime = async (milliseconds: number) =>
+    act(async () => {
+      await Promise.resolve();
+      jest.advanceTimersByTime(milliseconds);
+      await Promise.resolve();
+    });
+
+  it("is idle before event", () => {
+    const { result } = renderHook(() =>
+      usePaymentRequestPaymentIntent(stripe, paymentRequest, getClientSecret)
+    );
+
+    expect(result.current).toStrictEqual({ status: "idle" });
+  });
+
+  it("does not register without stripe", () => {
+    renderHook(() =>
+      usePaymentRequestPaymentIntent(null, paymentRequest, getClientSecret)
+    );
+
+    expect(paymentRequest.on).not.toHaveBeenCalled();
+  });
+
+  it("confirms with the wallet's payment method", async () => {
+    confirmCardPayment.mockResolvedValueOnce({ paymentIntent });
+
+    const { result, waitFor } = renderHook(() =>
+      usePaymentRequestPaymentIntent(stripe, paymentRequest, getClientSecret)
+    );
+
+    act(() => void paymentRequestEmitter.emit("paymentmethod", event));
+
+    expect(result.current).toStrictEqual({ status: "processing" });
+
+    await waitFor(() => result.current.status === "succeeded", {
+      interval: false,
+    });
+
+    expect(getClientSecret).toHaveBeenCalledWith(
+      { paymentMethod: { id: "pm_123" } },
+      {
+        idempotencyKey: expect.any(String),
+        signal: expect.objectContaining({ aborted: false }),
+      }
+    );
+    expect(confirmCardPayment).toHaveBeenCalledWith(
+      clientSecret,
+      { payment_method: "pm_123" },
+      { handleActions: false }
+    );
+    expect(confirmCardPayment).toHaveBeenCalledTimes(1);
+    expect(event.complete).toHaveBeenCalledWith("success");
+    expect(result.current).toStrictEqual({
+      paymentIntent,
+      status: "succeeded",
+    });
+  });
+
+  it("fails with the confirmation's error", async () => {
+    confirmCardPayment.mockResolvedValueOnce({ error });
+
+    const { result, waitFor } = renderHook(() =>
+      usePaymentRequestPaymentIntent(stripe, paymentRequest, getClientSecret)
+    );
+
+    act(() => void paymentRequestEmitter.emit("paymentmethod", event));
+
+    await waitFor(() => result.current.status === "failed", {
+      interval: false,
+    });
+
+    expect(event.complete).toHaveBeenCalledWith("fail");
+    expect(result.current).toStrictEqual({ error, status: "failed" });
+  });
+
+  it("handles the next action after completing", async () => {
+    confirmCardPayment
+      .mockResolvedValueOnce({
+        paymentIntent: { ...paymentIntent, status: "requires_action" },
+      })
+      .mockImplementationOnce(async () => {
+        expect(event.complete).toHaveBeenCalledWith("success");
+
+        return Promise.resolve({ paymentIntent });
+      });
+
+    const { result, waitFor } = renderHook(() =>
+      usePaymentRequestPaymentIntent(stripe, paymentRequest, getClientSecret)
+    );
+
+    act(() => void paymentRequestEmitter.emit("paymentmethod", event));
+
+    await waitFor(() => result.current.status === "authenticating", {
+      interval: false,
+    });
+    await waitFor(() => result.current.status === "succeeded", {
+      interval: false,
+    });
+
+    expect(confirmCardPayment).toHaveBeenLastCalledWith(clientSecret);
+    expect(result.current).toStrictEqual({
+      paymentIntent,
+      status: "succeeded",
+    });
+  });
+
+  it("fails when the next action fails", async () => {
+    confirmCardPayment
+      .mockResolvedValueOnce({
+        paymentIntent: { ...paymentIntent, status: "requires_action" },
+      })
+      .mockResolvedValueOnce({ error });
+
+    const { result, waitFor } = renderHook(() =>
+      usePaymentRequestPaymentIntent(stripe, paymentRequest, getClientSecret)
+    );
+
+    act(() => void paymentRequestEmitter.emit("paymentmethod", event));
+
+    await waitFor(() => result.current.status === "failed", {
+      interval: false,
+    });
+
+    expect(event.complete).toHaveBeenCalledWith("success");
+    expect(result.current).toStrictEqual({ error, status: "failed" });
+  });
+
+  it("fails when handling the next action throws", async () => {
+    confirmCardPayment
+      .mockResolvedValueOnce({
+        paymentIntent: { ...paymentIntent, status: "requires_action" },
+      })
+      .mockRejectedValueOnce(new Error("Oops"));
+
+    const { result, waitFor } = renderHook(() =>
+      usePaymentRequestPaymentIntent(stripe, paymentRequest, getClientSecret)
+    );
+
+    act(() => void paymentRequestEmitter.emit("paymentmethod", event));
+
+    await waitFor(() => result.current.status === "failed", {
+      interval: false,
+    });
+
+    expect(event.complete).toHaveBeenCalledWith("success");
+    expect(result.current).toStrictEqual({ status: "failed" });
+  });
+
+  it("goes back to idle when getClientSecret throws", async () => {
+    const onError = jest.fn(() => {});
+
+    getClientSecret.mockRejectedValueOnce(new Error("Oops"));
+
+    const { result, waitFor } = renderHook(() =>
+      usePaymentRequestPaymentIntent(stripe, paymentRequest, getClientSecret, {
+        onError,
+      })
+    );
+
+    act(() => void paymentRequestEmitter.emit("paymentmethod", event));
+
+    await waitFor(() => result.current.status === "idle", {
+      interval: false,
+    });
+
+    expect(confirmCardPayment).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledWith(new Error("Oops"), event);
+  });
+
+  it("doesn't confirm after timeout", async () => {
+    getClientSecret.mockImplementationOnce(
+      async () =>
+        new Promise((resolve) => void setTimeout(resolve, 20, clientSecret))
+    );
+
+    const { result } = renderHook(() =>
+      usePaymentRequestPaymentIntent(stripe, paymentRequest, getClientSecret, {
+        timeout: 10,
+      })
+    );
+
+    act(() => void paymentRequestEmitter.emit("paymentmethod", event));
+    await advanceTimersByTime(10);
+
+    expect(event.complete).toHaveBeenCalledWith("fail");
+    expect(result.current).toStrictEqual({ status: "idle" });
+
+    await advanceTimersByTime(10);
+
+    expect(confirmCardPayment).not.toHaveBeenCalled();
+    expect(result.current).toStrictEqual({ status: "idle" });
+  });
+
+  it("handles the next action of a confirmation that outlasts the timeout", async () => {
+    confirmCardPayment
+      .mockImplementationOnce(
+        async () =>
+          new Promise(
+            (resolve) =>
+              void setTimeout(resolve, 20, {
+                paymentIntent: { ...paymentIntent, status: "requires_action" },
+              })
+          )
+      )
+      .mockResolvedValueOnce({ paymentIntent });
+
+    const { result, waitFor } = renderHook(() =>
+      usePaymentRequestPaymentIntent(stripe, paymentRequest, getClientSecret, {
+        timeout: 10,
+      })
+    );
+
+    act(() => void paymentRequestEmitter.emit("paymentmethod", event));
+    await advanceTimersByTime(0);
+
+    expect(confirmCardPayment).toHaveBeenCalledTimes(1);
+
+    await advanceTimersByTime(10);
+
+    expect(event.complete).toHaveBeenCalledWith("fail");
+    expect(result.current).toStrictEqual({ status: "processing" });
+
+    await advanceTimersByTime(10);
+    await waitFor(() => result.current.status === "succeeded", {
+      interval: false,
+    });
+
+    expect(confirmCardPayment).toHaveBeenLastCalledWith(clientSecret);
+  });
+
+  it("waits longer than other events by default", async () => {
+    getClientSecret.mockReturnValueOnce(new Promise(() => {}));
+
+    renderHook(() =>
+      usePaymentRequestPaymentIntent(stripe, paymentRequest, getClientSecret)
+    );
+
+    act(() => void paymentRequestEmitter.emit("paymentmethod", event));
+    await advanceTimersByTime(2000);
+
+    expect(event.complete).not.toHaveBeenCalled();
+
+    await advanceTimersByTime(13000);
+
+    expect(event.complete).toHaveBeenCalledWith("fail");
+  });
+});
+
+describe("PaymentRequestProvider", () => {
+  let stripe: Stripe;
+  let wrapper: FunctionComponent;
+
+  beforeEach(() => {
+    stripe = {
+      paymentRequest: jest.fn(() => paymentRequest),
+    } as unknown as Stripe;
+    wrapper = (props) =>
+      createElement(PaymentRequestProvider, { ...props, options, stripe });
+  });
+
+  it("throws outside of a provider", () => {
+    const { result } = renderHook(() => usePaymentRequestContext());
+
+    expect(result.error).toHaveProperty(
+      "message",
+      "usePaymentRequestContext and its event hooks must be used within a PaymentRequestProvider"
+    );
+  });
+
+  it("provides usePaymentRequest", async () => {
+    const { result, waitForNextUpdate } = renderHook(
+      () => usePaymentRequestContext(),
+      { wrapper }
+    );
+
+    await waitForNextUpdate();
+
+    expect(result.current).toHaveProperty("0", paymentRequest);
+    expect(result.current).toHaveProperty("1.status", "ready");
+
+    act(() => result.current[1].setOpen(true));
+
+    expect(result.current).toHaveProperty("1.open", true);
+    expect(paymentRequest.show).toHaveBeenCalled();
+  });
+
+  it("provides paymentRequest and options to shipping hooks", async () => {
+    const event = {
+      shippingAddress,
+      updateWith: jest.fn<void, [PaymentRequestUpdateDetails]>(),
+    };
+    const { waitForNextUpdate } = renderHook(
+      () => useShippingAddress(async () => Promise.resolve("success")),
+      { wrapper }
+    );
+
+    await waitForNextUpdate();
+
+    act(() => void paymentRequestEmitter.emit("shippingaddresschange", event));
+
+    await waitForNextUpdate();
+
+    expect(event.updateWith).toHaveBeenCalledWith({
+      displayItems: options.displayItems,
+      shippingOptions: options.shippingOptions,
+      status: "success",
+      total: options.total,
+    });
+  });
+
+  it("provides paymentRequest to payment hooks", async () => {
+    const complete = jest.fn<void, [PaymentRequestCompleteStatus]>();
+    const completed = new Promise((resolve) => {
+      complete.mockImplementation(resolve);
+    });
+    const { waitForNextUpdate } = renderHook(
+      () => usePaymentMethod(async () => Promise.resolve("success")),
+      { wrapper }
+    );
+
+    await waitForNextUpdate();
+
+    await act(async () => {
+      paymentRequestEmitter.emit("paymentmethod", { complete });
+      await completed;
+    });
+
+    expect(complete).toHaveBeenCalledWith("success");
+  });
+});
+
+describe("PaymentRequestButton", () => {
+  const click = (renderer: ReactTestRenderer, defaultPrevented = false) => {
+    const { onClick } = renderer.root.findByType("button")
+      .props as ButtonHTMLAttributes<HTMLButtonElement>;
+    const event: Partial<MouseEvent<HTMLButtonElement>> = { defaultPrevented };
+
+    onClick?.(event as MouseEvent<HTMLButtonElement>);
+  };
+
+  const renderButton = (
+    props: PaymentRequestButtonProps,
+    state: Partial<ReturnType<typeof usePaymentRequest>[1]> = {}
+  ) => {
+    const buttonStyle = new Map<string, string>();
+    const value: ReturnType<typeof usePaymentRequest>[1] = {
+      availableWallets: ["applePay"],
+      canMakePayment: { loading: false, value: { applePay: true } },
+      isAvailable: true,
+      markOpen: jest.fn(),
+      open: false,
+      preferredWallet: "applePay",
+      requestPayment: jest.fn(),
+      setOpen: jest.fn(),
+      shippingOption: undefined,
+      status: "ready",
+      ...state,
+    };
+
+    return {
+      buttonStyle,
+      renderer: create(
+        createElement(PaymentRequestButton, {
+          ...props,
+          paymentRequest: [paymentRequest, value] as const,
+        }),
+        {
+          // The button's style declaration, which the branded style is set on
+          createNodeMock: () => ({
+            style: {
+              getPropertyValue: (name: string) => buttonStyle.get(name) ?? "",
+              removeProperty: (name: string) => buttonStyle.delete(name),
+              setProperty: (name: string, value: string) =>
+                buttonStyle.set(name, value),
+            },
+          }),
+        }
+      ),
+      setOpen: value.setOpen,
+    };
+  };
+
+  it("renders the preferred wallet's button", () => {
+    const { renderer } = renderButton({ className: "wallet" });
+
+    expect(renderer.toJSON()).toMatchObject({
+      children: ["Buy with Apple Pay"],
+      props: {
+        "aria-busy": false,
+        "aria-label": "Buy with Apple Pay",
+        className: "wallet",
+        "data-button-type": "buy",
+        "data-theme": "dark",
+        "data-wallet": "applePay",
+        disabled: false,
+        style: {},
+        type: "button",
+      },
+      type: "button",
+    });
+  });
+
+  it("renders loading while checking and nothing when unavailable", () => {
+    expect(
+      renderButton(
+        { loading: "Loading" },
+        { canMakePayment: { loading: true } }
+      ).renderer.toJSON()
+    ).toBe("Loading");
+    expect(
+      renderButton(
+        {},
+        {
+          availableWallets: [],
+          isAvailable: false,
+          preferredWallet: undefined,
+        }
+      ).renderer.toJSON()
+    ).toBeNull();
+  });
+
+  it("opens the sheet unless the click is prevented", () => {
+    const onClick = jest.fn();
+    const { renderer, setOpen } = renderButton({ onClick });
+
+    click(renderer);
+
+    expect(onClick).toHaveBeenCalledTimes(1);
+    expect(setOpen).toHaveBeenCalledWith(true);
+
+    click(renderer, true);
+
+    expect(setOpen).toHaveBeenCalledTimes(1);
+  });
+
+  it("is disabled while open and busy while processing", () => {
+    const { props } = renderButton(
+      {},
+      { open: true, status: "processing" }
+    ).renderer.root.findByType("button");
+
+    expect(props).toHaveProperty("disabled", true);
+    expect(props).toHaveProperty("aria-busy", true);
+  });
+
+  it("uses Safari's Apple Pay button when branded", () => {
+    const { buttonStyle } = renderButton({
+      branded: true,
+      buttonType: "checkout",
+      theme: "light",
+    });
+
+    expect(Array.from(buttonStyle)).toStrictEqual([
+      ["-apple-pay-button-style", "white"],
+      ["-apple-pay-button-type", "check-out"],
+      ["-webkit-appearance", "-apple-pay-button"],
+    ]);
+  });
+
+  it("leaves other wallets' buttons unstyled when branded", () => {
+    const { buttonStyle, renderer } = renderButton(
+      { branded: true, style: { color: "red" } },
+      { preferredWallet: "googlePay" }
+    );
+
+    expect(buttonStyle.size).toBe(0);
+    expect(renderer.root.findByType("button").props).toHaveProperty("style", {
+      color: "red",
+    });
+  });
+
+  it("renders children with the wallet and label", () => {
+    expect(
+      renderButton(
+        {
+          buttonType: "plain",
+          children: (wallet, label) => `${wallet}: ${label}`,
+        },
+        { preferredWallet: "googlePay" }
+      ).renderer.toJSON()
+    ).toHaveProperty("children", ["googlePay: Google Pay"]);
+  });
+
+  it("opens the PaymentRequestProvider's sheet", async () => {
+    const stripe = {
+      paymentRequest: jest.fn(() => paymentRequest),
+    } as unknown as Stripe;
+    const renderer = create(
+      createElement(
+        PaymentRequestProvider,
+        { options, stripe },
+        createElement(PaymentRequestButton)
+      )
+    );
+
+    await act(async () => {
+      await canMakePayment.mock.results[0]?.value;
+    });
+
+    expect(renderer.root.findByType("button").props).toHaveProperty(
+      "data-wallet",
+      "browserCard"
+    );
+
+    act(() => click(renderer));
+
+    expect(paymentRequest.show).toHaveBeenCalledTimes(1);
+    expect(renderer.root.findByType("button").props).toHaveProperty(
+      "disabled",
+      true
+    );
+  });
+
+  it("throws without a paymentRequest", () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(() => create(createElement(PaymentRequestButton))).toThrow(
+      "PaymentRequestButton must be given a paymentRequest or be used within a PaymentRequestProvider"
+    );
+  });
+});
+
+describe("usePaymentRequestButtonElement", () => {
+  let element: StripePaymentRequestButtonElement;
+  let elementEmitter: EventEmitter;
+  let elements: StripeElements;
+  let stripe: Stripe;
+  const partialContainer: Partial<HTMLElement> = {};
+  const container = partialContainer as HTMLElement;
+  const style: StripePaymentRequestButtonElementOptions["style"] = {
+    paymentRequestButton: { theme: "dark" },
+  };
+
+  beforeEach(() => {
+    elementEmitter = new EventEmitter();
+    element = {
+      destroy: jest.fn(),
+      mount: jest.fn(),
+      on: jest.fn(elementEmitter.on.bind(elementEmitter)),
+      update: jest.fn(),
+    } as unknown as StripePaymentRequestButtonElement;
+    elements = {
+      create: jest.fn(() => element),
+    } as unknown as StripeElements;
+    stripe = {
+      paymentRequest: jest.fn(() => paymentRequest),
+    } as unknown as Stripe;
+  });
+
+  const renderElementHook = async () => {
+    const rendered = renderHook(
+      (props) => {
+        const paymentRequestResult = usePaymentRequest(stripe, options);
+
+        return {
+          paymentRequestResult,
+          ref: usePaymentRequestButtonElement(
+            elements,
+            paymentRequestResult,
+            props
+          ),
+        };
+      },
+      { initialProps: { style } }
+    );
+
+    act(() => rendered.result.current.ref(container));
+    await rendered.waitForNextUpdate();
+
+    return rendered;
+  };
+
+  it("mounts once a wallet is available", async () => {
+    await renderElementHook();
+
+    expect(elements.create).toHaveBeenCalledTimes(1);
+    expect(elements.create).toHaveBeenCalledWith("paymentRequestButton", {
+      paymentRequest,
+      style,
+    });
+    expect(element.mount).toHaveBeenCalledWith(container);
+  });
+
+  it("doesn't mount without a wallet", async () => {
+    canMakePayment.mockResolvedValueOnce(null);
+
+    await renderElementHook();
+
+    expect(elements.create).not.toHaveBeenCalled();
+  });
+
+  it("lets the element show the sheet and follows it", async () => {
+    const { result } = await renderElementHook();
+    const preventDefault = jest.fn();
+
+    jest.mocked(paymentRequest.update).mockClear();
+
+    act(() => {
+      elementEmitter.emit("click", { preventDefault });
+    });
+
+    expect(preventDefault).not.toHaveBeenCalled();
+    expect(paymentRequest.show).not.toHaveBeenCalled();
+    expect(paymentRequest.update).toHaveBeenCalledTimes(1);
+    expect(result.current.paymentRequestResult).toHaveProperty("1.open", true);
+    expect(result.current.paymentRequestResult).toHaveProperty(
+      "1.status",
+      "showing"
+    );
+
+    act(() => void paymentRequestEmitter.emit("cancel"));
+
+    expect(result.current.paymentRequestResult).toHaveProperty(
+      "1.status",
+      "cancelled"
+    );
+  });
+
+  it("updates the style", async () => {
+    const { rerender } = await renderElementHook();
+    const newStyle: StripePaymentRequestButtonElementOptions["style"] = {
+      paymentRequestButton: { theme: "light" },
+    };
+
+    rerender({ style: { ...style } });
+
+    expect(element.update).toHaveBeenCalledTimes(1);
+
+    rerender({ style: newStyle });
+
+    expect(element.update).toHaveBeenCalledTimes(2);
+    expect(element.update).toHaveBeenLastCalledWith({
+      classes: undefined,
+      style: newStyle,
+    });
+    expect(elements.create).toHaveBeenCalledTimes(1);
+  });
+
+  it("destroys the element on unmount", async () => {
+    const { unmount } = await renderElementHook();
+
+    unmount();
+
+    expect(element.destroy).toHaveBeenCalledTimes(1);
+  });
 });
@@ -1,30 +1,186 @@
 import { isFunction } from "lodash/fp";
-import { useCallback, useEffect, useMemo, useState } from "react";
-import { useAsync } from "react-use";
+import {
+  Fragment,
+  createContext,
+  createElement,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { useDeepCompareEffect, useLatest, useUpdate } from "react-use";
 
+import { getShippingAddressEventCallback } from "./address";
+import {
+  createPaymentRequestController,
+  withSelectedShippingOption,
+} from "./controller";
+import {
+  subscribeToPaymentEvent,
+  subscribeToPaymentIntent,
+  subscribeToShippingEvent,
+} from "./events";
+import { getWalletAvailability, getWalletButtonLabel } from "./wallets";
+
+import type { PaymentRequestShippingAddressEventOptions } from "./address";
+import type {
+  PaymentRequestController,
+  PaymentRequestControllerOptions,
+  PaymentRequestControllerState,
+  PaymentRequestStatus,
+} from "./controller";
+import type {
+  MaybePromise,
+  PaymentEvents,
+  PaymentRequestEventContext,
+  PaymentRequestEventOptions,
+  PaymentRequestPaymentContext,
+  PaymentRequestPaymentEventOptions,
+  PaymentRequestPaymentIntentState,
+  PaymentValues,
+  ShippingEvents,
+  ShippingResponse,
+} from "./events";
+import type { Wallet, WalletButtonType } from "./wallets";
 import type {
   PaymentRequest,
   PaymentRequestCompleteStatus,
   PaymentRequestOptions,
   PaymentRequestPaymentMethodEvent,
   PaymentRequestShippingAddress,
-  PaymentRequestShippingAddressEvent,
   PaymentRequestShippingOption,
   PaymentRequestShippingOptionEvent,
   PaymentRequestSourceEvent,
   PaymentRequestTokenEvent,
   PaymentRequestUpdateDetails,
-  PaymentRequestUpdateDetailsStatus,
   Stripe,
+  StripeElements,
+  StripePaymentRequestButtonElement,
+  StripePaymentRequestButtonElementOptions,
 } from "@stripe/stripe-js";
-import type { SetStateAction } from "react";
+import type {
+  ButtonHTMLAttributes,
+  MouseEvent,
+  ReactNode,
+  SetStateAction,
+} from "react";
+
+export {
+  normalizeShippingAddress,
+  withNormalizedShippingAddress,
+} from "./address";
+export type {
+  PaymentRequestShippingAddressEventOptions,
+  RegionNames,
+  ShippingAddressOptions,
+} from "./address";
+export { assertDetailsAddUp, getCartDetails, withShippingOption } from "./cart";
+export type { Cart, CartItem, CartLine, Promotion } from "./cart";
+export { createPaymentRequestController } from "./controller";
+export {
+  formatAmount,
+  getAmountWarnings,
+  getCurrencyDecimals,
+  isZeroDecimalCurrency,
+  toMajorUnits,
+  toMinorUnits,
+} from "./currency";
+export { defaultLabelCatalog, getLabels } from "./labels";
+export type {
+  DeliveryEstimate,
+  LabelCatalog,
+  LabelMessages,
+  Labels,
+} from "./labels";
+export { validatePayer } from "./payer";
+export type {
+  PayerDetails,
+  PayerValidationOptions,
+  PayerValidationResult,
+} from "./payer";
+export { createShippingRules, matchShippingRule } from "./shipping";
+export type {
+  PostalCodeRange,
+  ShippingDestination,
+  ShippingRule,
+} from "./shipping";
+export {
+  createRemoteTaxProvider,
+  createShippingAddressTaxes,
+  createTaxRateProvider,
+} from "./tax";
+export type {
+  RemoteTaxProviderOptions,
+  TaxProvider,
+  TaxRate,
+  TaxRequest,
+} from "./tax";
+export {
+  defaultWalletPriority,
+  getWalletAvailability,
+  getWalletButtonLabel,
+} from "./wallets";
+export type {
+  Wallet,
+  WalletAvailability,
+  WalletAvailabilityOptions,
+  WalletButtonType,
+} from "./wallets";
+export type {
+  PaymentRequestController,
+  PaymentRequestControllerOptions,
+  PaymentRequestControllerState,
+  PaymentRequestResult,
+  PaymentRequestStatus,
+} from "./controller";
+export {
+  setDefaultTimeout,
+  subscribeToPaymentEvent,
+  subscribeToPaymentIntent,
+  subscribeToShippingEvent,
+} from "./events";
+export type {
+  PaymentRequestEventContext,
+  PaymentRequestEventOptions,
+  PaymentRequestPaymentContext,
+  PaymentRequestPaymentEventOptions,
+  PaymentRequestPaymentIntentState,
+  ShippingResponse,
+  ShippingUpdateOptions,
+} from "./events";
+
+export interface UsePaymentRequestOptions
+  extends PaymentRequestControllerOptions {
+  /** Waits for an open sheet to close before changes to country, disableWallets, requestShipping or the payer flags create a new paymentRequest, instead of aborting it */
+  deferRecreation?: boolean;
+  /** Called on every status transition */
+  onStatusChange?: (
+    status: PaymentRequestStatus,
+    previousStatus: PaymentRequestStatus
+  ) => void;
+  /** Which available wallet is preferred first. Defaults to applePay, googlePay, link then browserCard */
+  walletPriority?: Wallet[];
+}
+
+const checkingCanMakePayment: PaymentRequestControllerState["canMakePayment"] =
+  { loading: true };
+
+const requestPaymentWithoutStripe: PaymentRequestController["requestPayment"] =
+  async () =>
+    Promise.reject(
+      new Error(
+        "requestPayment can't show a paymentRequest before stripe has loaded"
+      )
+    );
 
 /**
  * @link https://stripe.com/docs/js/payment_request/create
  *
  * @example
  *
- * const [paymentRequest, { canMakePayment, setOpen }] = usePaymentRequest(stripe, { ... });
+ * const [paymentRequest, { canMakePayment, setOpen, status }] = usePaymentRequest(stripe, { ... });
  *
  * return !canMakePayment
  *   ? null
@@ -32,7 +188,16 @@ import type { SetStateAction } from "react";
  */
 export const usePaymentRequest = (
   stripe: Stripe | undefined | null,
+  options: PaymentRequestOptions,
   {
+    applyShippingOption,
+    deferRecreation,
+    onAmountWarning,
+    onStatusChange,
+    walletPriority,
+  }: UsePaymentRequestOptions = {}
+) => {
+  const {
     country,
     currency,
     disableWallets,
@@ -43,28 +208,21 @@ export const usePaymentRequest = (
     requestShipping,
     shippingOptions,
     total,
-  }: PaymentRequestOptions
-) => {
-  const paymentRequest = useMemo(
-    () =>
-      stripe?.paymentRequest({
-        // currency, displayItems, shippingOptions, & total can be updated and we don't want to trigger a new payment request
-        // so we put some dummy values here and update them wherever updates are allowed
-        country,
-        currency: "usd",
-        disableWallets,
-        displayItems: [],
-        requestPayerEmail,
-        requestPayerName,
-        requestPayerPhone,
-        requestShipping,
-        shippingOptions: [],
-        total: {
-          amount: 0,
-          label: "Total",
-          pending: true,
-        },
-      }),
+  } = options;
+  const latestOptions = useLatest(options);
+  const latestOnAmountWarning = useLatest(onAmountWarning);
+  const latestOnStatusChange = useLatest(onStatusChange);
+
+  // Only the options that can't be updated create a new controller
+  const creationOptions = useMemo(
+    () => ({
+      country,
+      disableWallets,
+      requestPayerEmail,
+      requestPayerName,
+      requestPayerPhone,
+      requestShipping,
+    }),
     [
       country,
       disableWallets,
@@ -72,189 +230,239 @@ export const usePaymentRequest = (
       requestPayerName,
       requestPayerPhone,
       requestShipping,
-      stripe,
     ]
   );
-
-  const canMakePayment = useAsync(
-    async () => (await paymentRequest?.canMakePayment()) ?? undefined,
-    [paymentRequest]
+  const previousController = useRef<PaymentRequestController>();
+  const [deferredCreationOptions, setDeferredCreationOptions] =
+    useState(creationOptions);
+  const deferring = Boolean(
+    deferRecreation && previousController.current?.getState().open
   );
 
-  const [open, setOpenRaw] = useState(false);
-  const setOpen = useCallback(
-    (openAction: SetStateAction<boolean>) => {
-      const newOpen = isFunction(openAction) ? openAction(open) : openAction;
-      if (
-        !canMakePayment.value ||
-        newOpen === open ||
-        newOpen === Boolean(paymentRequest?.isShowing())
-      ) {
-        return;
-      }
+  useEffect(() => {
+    if (!deferring) {
+      setDeferredCreationOptions(creationOptions);
+    }
+  }, [creationOptions, deferring]);
 
-      setOpenRaw(newOpen);
+  const appliedCreationOptions = deferring
+    ? deferredCreationOptions
+    : creationOptions;
 
-      if (newOpen) {
-        paymentRequest?.update({
-          currency,
-          displayItems,
-          shippingOptions,
-          total,
-        });
+  const [controller, setController] = useState<PaymentRequestController>();
+
+  // Created & destroyed by the same effect, so neither a discarded render nor a re-run effect leaves one behind.
+  // The replaced controller aborts its sheet and settles its requestPayment, the new one checks canMakePayment again
+  useEffect(() => {
+    if (!stripe) {
+      setController(undefined);
 
-        paymentRequest?.show();
-      } else {
-        void paymentRequest?.abort?.();
+      return () => {};
+    }
+
+    const newController = createPaymentRequestController(
+      stripe,
+      { ...latestOptions.current, ...appliedCreationOptions },
+      {
+        applyShippingOption,
+        onAmountWarning: (warning) => latestOnAmountWarning.current?.(warning),
       }
-    },
-    [
-      canMakePayment.value,
-      currency,
-      displayItems,
-      open,
-      paymentRequest,
-      shippingOptions,
-      total,
-    ]
+    );
+
+    previousController.current = newController;
+    setController(newController);
+
+    return () => newController.destroy();
+  }, [
+    appliedCreationOptions,
+    applyShippingOption,
+    latestOnAmountWarning,
+    latestOptions,
+    stripe,
+  ]);
+
+  useEffect(() => {
+    controller?.update({ currency, displayItems, shippingOptions, total });
+  }, [controller, currency, displayItems, shippingOptions, total]);
+
+  const rerender = useUpdate();
+  const state = controller?.getState();
+
+  useEffect(() => {
+    if (!controller) {
+      return () => {};
+    }
+
+    const unsubscribe = controller.subscribe(rerender);
+
+    // The state can change between rendering and subscribing
+    if (controller.getState() !== state) {
+      rerender();
+    }
+
+    return unsubscribe;
+  }, [controller, rerender, state]);
+
+  const setOpen = useCallback(
+    (openAction: SetStateAction<boolean>) =>
+      controller?.setOpen(
+        isFunction(openAction)
+          ? openAction(controller.getState().open)
+          : openAction
+      ),
+    [controller]
+  );
+  const markOpen = useCallback(() => controller?.markOpen(), [controller]);
+
+  const canMakePayment = state?.canMakePayment ?? checkingCanMakePayment;
+  const { availableWallets, isAvailable, preferredWallet } = useMemo(
+    () =>
+      getWalletAvailability(canMakePayment.value, {
+        disableWallets,
+        walletPriority,
+      }),
+    [canMakePayment, disableWallets, walletPriority]
   );
 
+  const reportedStatus = useRef<PaymentRequestStatus>();
+
+  // Listens to the controller, since React can batch several transitions into one render
   useEffect(() => {
-    const handler = () => setOpenRaw(false);
+    if (!controller) {
+      return () => {};
+    }
+
+    const reportStatus = (status: PaymentRequestStatus) => {
+      const previousStatus = reportedStatus.current;
+
+      reportedStatus.current = status;
 
-    paymentRequest?.on("cancel", handler);
+      if (previousStatus && previousStatus !== status) {
+        latestOnStatusChange.current?.(status, previousStatus);
+      }
+    };
+
+    reportStatus(controller.getState().status);
 
-    return () => void paymentRequest?.off("cancel", handler);
-  }, [paymentRequest]);
+    return controller.subscribe((newState) => reportStatus(newState.status));
+  }, [controller, latestOnStatusChange]);
 
   return [
-    paymentRequest,
+    controller?.paymentRequest,
     {
+      availableWallets,
       canMakePayment,
-      open,
+      isAvailable,
+      markOpen,
+      open: state?.open ?? false,
+      preferredWallet,
+      requestPayment: controller?.requestPayment ?? requestPaymentWithoutStripe,
       setOpen,
+      shippingOption: state?.shippingOption,
+      status: state?.status ?? "checking",
     },
   ] as const;
 };
 
-type MaybePromise<T> = T | Promise<T>;
-
-interface PaymentEvents {
-  paymentmethod: PaymentRequestPaymentMethodEvent;
-  source: PaymentRequestSourceEvent;
-  token: PaymentRequestTokenEvent;
-}
-
-interface ShippingEvents {
-  shippingaddresschange: PaymentRequestShippingAddressEvent;
-  shippingoptionchange: PaymentRequestShippingOptionEvent;
-}
-
-interface Events extends PaymentEvents, ShippingEvents {}
-
-type PaymentValues = {
-  [Key in keyof PaymentEvents]: Omit<PaymentEvents[Key], "complete">;
-};
+/**
+ * Always calls the latest callback, so a new callback on every render doesn't resubscribe and lose the events in progress
+ */
+const useLatestCallback = <Args extends unknown[], Result>(
+  callback: ((...args: Args) => Result) | undefined
+) => {
+  const latest = useLatest(callback);
+  const hasCallback = Boolean(callback);
 
-type PaymentStatuses = {
-  [Key in keyof PaymentEvents]: PaymentRequestCompleteStatus;
-};
+  return useMemo(
+    () =>
+      !hasCallback
+        ? undefined
+        : (...args: Args) => {
+            // Only between the render that removed the callback and the effect unsubscribing it
+            if (!latest.current) {
+              throw new Error("The callback was removed");
+            }
 
-type ShippingStatuses = {
-  [Key in keyof ShippingEvents]: PaymentRequestUpdateDetailsStatus;
+            return latest.current(...args);
+          },
+    [hasCallback, latest]
+  );
 };
 
-interface Statuses extends PaymentStatuses, ShippingStatuses {}
-
 /**
- * Main hook for all paymentRequest events. Won't be used directly: we'll be using the named hooks instead ie usePaymentRequestShippingAddress
- *
- * @link https://stripe.com/docs/js/payment_request/events
+ * Same as useLatestCallback, for every callback of the event options
  */
-const usePaymentRequestEventHandler = <EventName extends keyof Events>(
-  eventName: EventName,
-  paymentRequest: PaymentRequest | undefined,
-  getCallback: (
-    event: Events[EventName]
-  ) => (status: Statuses[EventName]) => void,
-  onEvent?: (event: Events[EventName]) => MaybePromise<Statuses[EventName]>
-) =>
-  useEffect(() => {
-    if (!onEvent) {
-      return () => {};
-    }
-
-    const handler = async (event: Events[EventName]) => {
-      const callback = getCallback(event);
-
-      callback(
-        await Promise.any([
-          onEvent(event),
-          new Promise<Statuses[EventName]>(
-            (resolve) => void setTimeout(() => resolve("fail"), 2000)
-          ),
-        ])
-      );
-    };
-
-    // @ts-expect-error -- FIXME paymentRequest.on is a function overload and it won't detect that any EventName & Event pair fits https://github.com/microsoft/TypeScript/issues/14107
-    paymentRequest?.on(eventName, handler);
+const useLatestEventOptions = <Event, Status>(
+  eventOptions: PaymentRequestEventOptions<Event, Status> = {}
+) => {
+  const latest = useLatest(eventOptions);
+  const { timeout } = eventOptions;
 
-    // @ts-expect-error -- FIXME paymentRequest.off is a function overload and it won't detect that any EventName & Event pair fits https://github.com/microsoft/TypeScript/issues/14107
-    return () => void paymentRequest?.off(eventName, handler);
-  }, [eventName, getCallback, onEvent, paymentRequest]);
+  return useMemo(
+    (): PaymentRequestEventOptions<Event, Status> => ({
+      onError: async (error, event) => latest.current.onError?.(error, event),
+      onTimeout: (event) => latest.current.onTimeout?.(event),
+      timeout,
+    }),
+    [latest, timeout]
+  );
+};
 
 const usePaymentRequestShippingEvent = <EventName extends keyof ShippingEvents>(
   eventName: EventName,
   paymentRequest: PaymentRequest | undefined,
-  {
-    displayItems,
-    shippingOptions,
-    total,
-  }: Omit<PaymentRequestUpdateDetails, "status">,
-  onShippingResponseChange?:
+  details: Omit<PaymentRequestUpdateDetails, "status">,
+  onShippingResponseChangeRaw:
     | ((
-        event: ShippingEvents[EventName]
-      ) => MaybePromise<PaymentRequestUpdateDetailsStatus>)
-    | undefined
+        event: ShippingEvents[EventName],
+        context: PaymentRequestEventContext
+      ) => MaybePromise<ShippingResponse>)
+    | undefined,
+  eventOptionsRaw?: PaymentRequestEventOptions<
+    ShippingEvents[EventName],
+    ShippingResponse
+  >
 ) => {
-  const [event, setEvent] = useState<ShippingEvents[EventName]>();
-  const [status, setStatus] = useState<PaymentRequestUpdateDetailsStatus>();
+  const onShippingResponseChange = useLatestCallback(
+    onShippingResponseChangeRaw
+  );
+  const eventOptions = useLatestEventOptions(eventOptionsRaw);
+  const latestDetails = useLatest(details);
+  const [update, setUpdate] = useState<() => void>();
 
+  // HACK I would much prefer to update as soon as the callback settles, but I need to give one render cycle for displayItems/shippingOptions/total to change. Only "success" statuses wait for it
   useEffect(() => {
-    if (!event || !status) {
+    if (!update) {
       return;
     }
 
-    setEvent(undefined);
-    setStatus(undefined);
-
-    // HACK I would much prefer to call this in getShippingCallback, but I need to give one render cycle for displayItems/shippingOptions/total to change
-    event.updateWith({
-      status,
-      ...(status === "success" && {
-        displayItems,
-        shippingOptions,
-        total,
-      }),
-    });
-  }, [displayItems, event, shippingOptions, status, total]);
+    setUpdate(undefined);
+    update();
+  }, [update]);
 
-  const getShippingCallback = useCallback(
-    (event: ShippingEvents[EventName]) =>
-      (status: PaymentRequestUpdateDetailsStatus) => {
-        setEvent(event);
-        setStatus(status);
-      },
-    []
-  );
+  useEffect(() => {
+    if (!paymentRequest || !onShippingResponseChange) {
+      return () => {};
+    }
 
-  usePaymentRequestEventHandler(
+    return subscribeToShippingEvent(
+      paymentRequest,
+      eventName,
+      onShippingResponseChange,
+      eventOptions,
+      {
+        getDetails: () =>
+          withSelectedShippingOption(paymentRequest, latestDetails.current),
+        schedule: (newUpdate) => setUpdate(() => newUpdate),
+      }
+    );
+  }, [
     eventName,
+    eventOptions,
+    latestDetails,
+    onShippingResponseChange,
     paymentRequest,
-    getShippingCallback,
-    onShippingResponseChange
-  );
+  ]);
 };
 
 /**
@@ -263,25 +471,20 @@ const usePaymentRequestShippingEvent = <EventName extends keyof ShippingEvents>(
 export const usePaymentRequestShippingAddress = (
   paymentRequest: PaymentRequest | undefined,
   options: Omit<PaymentRequestUpdateDetails, "status">,
-  onShippingAddressChangeRaw?: (
-    shippingAddress: PaymentRequestShippingAddress
-  ) => MaybePromise<PaymentRequestUpdateDetailsStatus>
-) => {
-  const onShippingAddressChange = useMemo(
-    () =>
-      onShippingAddressChangeRaw &&
-      (({ shippingAddress }: PaymentRequestShippingAddressEvent) =>
-        onShippingAddressChangeRaw(shippingAddress)),
-    [onShippingAddressChangeRaw]
-  );
-
+  onShippingAddressChange?: (
+    shippingAddress: PaymentRequestShippingAddress,
+    context: PaymentRequestEventContext
+  ) => MaybePromise<ShippingResponse>,
+  eventOptions?: PaymentRequestShippingAddressEventOptions
+) =>
   usePaymentRequestShippingEvent(
     "shippingaddresschange",
     paymentRequest,
     options,
-    onShippingAddressChange
+    onShippingAddressChange &&
+      getShippingAddressEventCallback(onShippingAddressChange, eventOptions),
+    eventOptions
   );
-};
 
 /**
  * @link https://stripe.com/docs/js/payment_request/events/on_shipping_option_change
@@ -290,51 +493,82 @@ export const usePaymentRequestShippingAddress = (
 export const usePaymentRequestShippingOption = (
   paymentRequest: PaymentRequest | undefined,
   options: Omit<PaymentRequestUpdateDetails, "status">,
-  onShippingOptionChangeRaw?: (
-    shippingOption: PaymentRequestShippingOption
-  ) => MaybePromise<PaymentRequestUpdateDetailsStatus>
-) => {
-  const onShippingOptionChange = useMemo(
-    () =>
-      onShippingOptionChangeRaw &&
-      (({ shippingOption }: PaymentRequestShippingOptionEvent) =>
-        onShippingOptionChangeRaw(shippingOption)),
-    [onShippingOptionChangeRaw]
-  );
-
+  onShippingOptionChange?: (
+    shippingOption: PaymentRequestShippingOption,
+    context: PaymentRequestEventContext
+  ) => MaybePromise<ShippingResponse>,
+  eventOptions?: PaymentRequestEventOptions<
+    PaymentRequestShippingOptionEvent,
+    ShippingResponse
+  >
+) =>
   usePaymentRequestShippingEvent(
     "shippingoptionchange",
     paymentRequest,
     options,
-    onShippingOptionChange
+    onShippingOptionChange &&
+      (({ shippingOption }, context) =>
+        onShippingOptionChange(shippingOption, context)),
+    eventOptions
   );
-};
-
-const getPaymentCallback = <EventName extends keyof PaymentEvents>({
-  complete,
-}: PaymentEvents[EventName]) => complete;
 
 const usePaymentRequestPaymentEvent = <EventName extends keyof PaymentEvents>(
   eventName: EventName,
   paymentRequest: PaymentRequest | undefined,
-  onPaymentResponseChangeRaw?: (
-    value: Omit<PaymentValues[EventName], "complete">
-  ) => MaybePromise<PaymentRequestCompleteStatus>
+  onPaymentResponseChangeRaw:
+    | ((
+        value: Omit<PaymentValues[EventName], "complete">,
+        context: PaymentRequestPaymentContext
+      ) => MaybePromise<PaymentRequestCompleteStatus>)
+    | undefined,
+  eventOptionsRaw?: PaymentRequestPaymentEventOptions<PaymentEvents[EventName]>
 ) => {
-  const onPaymentResponseChange = useMemo(
+  const onPaymentResponseChange = useLatestCallback(onPaymentResponseChangeRaw);
+  const eventOptions = useLatestEventOptions(eventOptionsRaw);
+  const validating = Boolean(eventOptionsRaw?.validatePayer);
+  const {
+    defaultCallingCode,
+    requestPayerEmail,
+    requestPayerName,
+    requestPayerPhone,
+  } = eventOptionsRaw?.validatePayer ?? {};
+  const validatePayer = useMemo(
     () =>
-      onPaymentResponseChangeRaw &&
-      (async ({ complete, ...value }: Events[EventName]) =>
-        onPaymentResponseChangeRaw(value)),
-    [onPaymentResponseChangeRaw]
+      validating
+        ? {
+            defaultCallingCode,
+            requestPayerEmail,
+            requestPayerName,
+            requestPayerPhone,
+          }
+        : undefined,
+    [
+      defaultCallingCode,
+      requestPayerEmail,
+      requestPayerName,
+      requestPayerPhone,
+      validating,
+    ]
   );
 
-  usePaymentRequestEventHandler(
+  useEffect(() => {
+    if (!paymentRequest || !onPaymentResponseChange) {
+      return () => {};
+    }
+
+    return subscribeToPaymentEvent(
+      paymentRequest,
+      eventName,
+      onPaymentResponseChange,
+      { ...eventOptions, validatePayer }
+    );
+  }, [
     eventName,
+    eventOptions,
+    onPaymentResponseChange,
     paymentRequest,
-    getPaymentCallback,
-    onPaymentResponseChange
-  );
+    validatePayer,
+  ]);
 };
 
 /**
@@ -343,13 +577,16 @@ const usePaymentRequestPaymentEvent = <EventName extends keyof PaymentEvents>(
 export const usePaymentRequestPaymentMethod = (
   paymentRequest: PaymentRequest | undefined,
   onPaymentMethodChange?: (
-    paymentResponse: Omit<PaymentRequestPaymentMethodEvent, "complete">
-  ) => MaybePromise<PaymentRequestCompleteStatus>
+    paymentResponse: Omit<PaymentRequestPaymentMethodEvent, "complete">,
+    context: PaymentRequestPaymentContext
+  ) => MaybePromise<PaymentRequestCompleteStatus>,
+  eventOptions?: PaymentRequestPaymentEventOptions<PaymentRequestPaymentMethodEvent>
 ) =>
   usePaymentRequestPaymentEvent(
     "paymentmethod",
     paymentRequest,
-    onPaymentMethodChange
+    onPaymentMethodChange,
+    eventOptions
   );
 
 /**
@@ -359,9 +596,17 @@ export const usePaymentRequestPaymentMethod = (
 export const usePaymentRequestSource = (
   paymentRequest: PaymentRequest | undefined,
   onSourceChange?: (
-    paymentResponse: Omit<PaymentRequestSourceEvent, "complete">
-  ) => MaybePromise<PaymentRequestCompleteStatus>
-) => usePaymentRequestPaymentEvent("source", paymentRequest, onSourceChange);
+    paymentResponse: Omit<PaymentRequestSourceEvent, "complete">,
+    context: PaymentRequestPaymentContext
+  ) => MaybePromise<PaymentRequestCompleteStatus>,
+  eventOptions?: PaymentRequestPaymentEventOptions<PaymentRequestSourceEvent>
+) =>
+  usePaymentRequestPaymentEvent(
+    "source",
+    paymentRequest,
+    onSourceChange,
+    eventOptions
+  );
 
 /**
  * @link https://stripe.com/docs/js/payment_request/events/on_token
@@ -370,6 +615,504 @@ export const usePaymentRequestSource = (
 export const usePaymentRequestToken = (
   paymentRequest: PaymentRequest | undefined,
   onTokenChange?: (
-    paymentResponse: Omit<PaymentRequestTokenEvent, "complete">
-  ) => MaybePromise<PaymentRequestCompleteStatus>
-) => usePaymentRequestPaymentEvent("token", paymentRequest, onTokenChange);
+    paymentResponse: Omit<PaymentRequestTokenEvent, "complete">,
+    context: PaymentRequestPaymentContext
+  ) => MaybePromise<PaymentRequestCompleteStatus>,
+  eventOptions?: PaymentRequestPaymentEventOptions<PaymentRequestTokenEvent>
+) =>
+  usePaymentRequestPaymentEvent(
+    "token",
+    paymentRequest,
+    onTokenChange,
+    eventOptions
+  );
+
+/**
+ * subscribeToPaymentIntent's state, see it for the flow
+ *
+ * @link https://stripe.com/docs/stripe-js/elements/payment-request-button#complete-payment
+ */
+export const usePaymentRequestPaymentIntent = (
+  stripe: Stripe | undefined | null,
+  paymentRequest: PaymentRequest | undefined,
+  getClientSecretRaw?: (
+    paymentResponse: Omit<PaymentRequestPaymentMethodEvent, "complete">,
+    context: PaymentRequestPaymentContext
+  ) => MaybePromise<string>,
+  eventOptionsRaw?: PaymentRequestEventOptions<
+    PaymentRequestPaymentMethodEvent,
+    PaymentRequestCompleteStatus
+  >
+) => {
+  const [state, setState] = useState<PaymentRequestPaymentIntentState>({
+    status: "idle",
+  });
+  const getClientSecret = useLatestCallback(getClientSecretRaw);
+  const eventOptions = useLatestEventOptions(eventOptionsRaw);
+
+  useEffect(() => {
+    if (!stripe || !paymentRequest || !getClientSecret) {
+      return () => {};
+    }
+
+    return subscribeToPaymentIntent(
+      stripe,
+      paymentRequest,
+      getClientSecret,
+      setState,
+      eventOptions
+    );
+  }, [eventOptions, getClientSecret, paymentRequest, stripe]);
+
+  return state;
+};
+
+interface PaymentRequestContextValue {
+  options: PaymentRequestOptions;
+  paymentRequest: ReturnType<typeof usePaymentRequest>;
+  stripe: Stripe | undefined | null;
+}
+
+const PaymentRequestContext = createContext<
+  PaymentRequestContextValue | undefined
+>(undefined);
+
+export interface PaymentRequestProviderProps extends UsePaymentRequestOptions {
+  children?: ReactNode;
+  options: PaymentRequestOptions;
+  stripe: Stripe | undefined | null;
+}
+
+/**
+ * Owns a usePaymentRequest for every hook below it, so paymentRequest & options don't need to be passed around
+ *
+ * @example
+ *
+ * <PaymentRequestProvider stripe={stripe} options={options}>
+ *   <Checkout />
+ * </PaymentRequestProvider>
+ */
+export const PaymentRequestProvider = ({
+  applyShippingOption,
+  children,
+  deferRecreation,
+  onAmountWarning,
+  onStatusChange,
+  options,
+  stripe,
+  walletPriority,
+}: PaymentRequestProviderProps) => {
+  const [
+    paymentRequest,
+    {
+      availableWallets,
+      canMakePayment,
+      isAvailable,
+      markOpen,
+      open,
+      preferredWallet,
+      requestPayment,
+      setOpen,
+      shippingOption,
+      status,
+    },
+  ] = usePaymentRequest(stripe, options, {
+    applyShippingOption,
+    deferRecreation,
+    onAmountWarning,
+    onStatusChange,
+    walletPriority,
+  });
+
+  const value = useMemo(
+    () => ({
+      // The shipping hooks below select the shipping option in them, like the sheet opens with
+      options,
+      paymentRequest: [
+        paymentRequest,
+        {
+          availableWallets,
+          canMakePayment,
+          isAvailable,
+          markOpen,
+          open,
+          preferredWallet,
+          requestPayment,
+          setOpen,
+          shippingOption,
+          status,
+        },
+      ] as const,
+      stripe,
+    }),
+    [
+      availableWallets,
+      canMakePayment,
+      isAvailable,
+      markOpen,
+      open,
+      options,
+      paymentRequest,
+      preferredWallet,
+      requestPayment,
+      setOpen,
+      shippingOption,
+      status,
+      stripe,
+    ]
+  );
+
+  return createElement(PaymentRequestContext.Provider, { value }, children);
+};
+
+const usePaymentRequestContextValue = () => {
+  const value = useContext(PaymentRequestContext);
+
+  if (!value) {
+    throw new Error(
+      "usePaymentRequestContext and its event hooks must be used within a PaymentRequestProvider"
+    );
+  }
+
+  return value;
+};
+
+/**
+ * Same as usePaymentRequest, for the PaymentRequestProvider above
+ */
+export const usePaymentRequestContext = () =>
+  usePaymentRequestContextValue().paymentRequest;
+
+/**
+ * usePaymentRequestShippingAddress for the PaymentRequestProvider above
+ */
+export const useShippingAddress = (
+  onShippingAddressChange?: (
+    shippingAddress: PaymentRequestShippingAddress,
+    context: PaymentRequestEventContext
+  ) => MaybePromise<ShippingResponse>,
+  eventOptions?: PaymentRequestShippingAddressEventOptions
+) => {
+  const {
+    options,
+    paymentRequest: [paymentRequest],
+  } = usePaymentRequestContextValue();
+
+  usePaymentRequestShippingAddress(
+    paymentRequest,
+    options,
+    onShippingAddressChange,
+    eventOptions
+  );
+};
+
+/**
+ * usePaymentRequestShippingOption for the PaymentRequestProvider above
+ */
+export const useShippingOption = (
+  onShippingOptionChange?: (
+    shippingOption: PaymentRequestShippingOption,
+    context: PaymentRequestEventContext
+  ) => MaybePromise<ShippingResponse>,
+  eventOptions?: PaymentRequestEventOptions<
+    PaymentRequestShippingOptionEvent,
+    ShippingResponse
+  >
+) => {
+  const {
+    options,
+    paymentRequest: [paymentRequest],
+  } = usePaymentRequestContextValue();
+
+  usePaymentRequestShippingOption(
+    paymentRequest,
+    options,
+    onShippingOptionChange,
+    eventOptions
+  );
+};
+
+/**
+ * usePaymentRequestPaymentMethod for the PaymentRequestProvider above
+ */
+export const usePaymentMethod = (
+  onPaymentMethodChange?: (
+    paymentResponse: Omit<PaymentRequestPaymentMethodEvent, "complete">,
+    context: PaymentRequestPaymentContext
+  ) => MaybePromise<PaymentRequestCompleteStatus>,
+  eventOptions?: PaymentRequestPaymentEventOptions<PaymentRequestPaymentMethodEvent>
+) => {
+  const [paymentRequest] = usePaymentRequestContext();
+
+  usePaymentRequestPaymentMethod(
+    paymentRequest,
+    onPaymentMethodChange,
+    eventOptions
+  );
+};
+
+/**
+ * usePaymentRequestSource for the PaymentRequestProvider above
+ */
+export const useSource = (
+  onSourceChange?: (
+    paymentResponse: Omit<PaymentRequestSourceEvent, "complete">,
+    context: PaymentRequestPaymentContext
+  ) => MaybePromise<PaymentRequestCompleteStatus>,
+  eventOptions?: PaymentRequestPaymentEventOptions<PaymentRequestSourceEvent>
+) => {
+  const [paymentRequest] = usePaymentRequestContext();
+
+  usePaymentRequestSource(paymentRequest, onSourceChange, eventOptions);
+};
+
+/**
+ * usePaymentRequestToken for the PaymentRequestProvider above
+ */
+export const useToken = (
+  onTokenChange?: (
+    paymentResponse: Omit<PaymentRequestTokenEvent, "complete">,
+    context: PaymentRequestPaymentContext
+  ) => MaybePromise<PaymentRequestCompleteStatus>,
+  eventOptions?: PaymentRequestPaymentEventOptions<PaymentRequestTokenEvent>
+) => {
+  const [paymentRequest] = usePaymentRequestContext();
+
+  usePaymentRequestToken(paymentRequest, onTokenChange, eventOptions);
+};
+
+/**
+ * usePaymentRequestPaymentIntent for the PaymentRequestProvider above
+ */
+export const usePaymentIntent = (
+  getClientSecret?: (
+    paymentResponse: Omit<PaymentRequestPaymentMethodEvent, "complete">,
+    context: PaymentRequestPaymentContext
+  ) => MaybePromise<string>,
+  eventOptions?: PaymentRequestEventOptions<
+    PaymentRequestPaymentMethodEvent,
+    PaymentRequestCompleteStatus
+  >
+) => {
+  const {
+    paymentRequest: [paymentRequest],
+    stripe,
+  } = usePaymentRequestContextValue();
+
+  return usePaymentRequestPaymentIntent(
+    stripe,
+    paymentRequest,
+    getClientSecret,
+    eventOptions
+  );
+};
+
+export type WalletButtonTheme = "dark" | "light" | "light-outline";
+
+export interface PaymentRequestButtonProps
+  extends Omit<ButtonHTMLAttributes<HTMLButtonElement>, "children" | "type"> {
+  /** Uses the wallet's own button where the browser has one (ie Apple Pay in Safari) instead of leaving it unstyled */
+  branded?: boolean;
+  /** Defaults to "buy" */
+  buttonType?: WalletButtonType;
+  /** Renders the button's content instead of its label, ie a wallet logo */
+  children?: (wallet: Wallet, label: string) => ReactNode;
+  /** Rendered while checking canMakePayment. Defaults to nothing */
+  loading?: ReactNode;
+  /** A usePaymentRequest result. Defaults to the PaymentRequestProvider above */
+  paymentRequest?: ReturnType<typeof usePaymentRequest>;
+  /** Defaults to "dark" */
+  theme?: WalletButtonTheme;
+  /** Rendered when no wallet is available. Defaults to nothing */
+  unavailable?: ReactNode;
+}
+
+const appleButtonTypes: Record<WalletButtonType, string> = {
+  book: "book",
+  buy: "buy",
+  checkout: "check-out",
+  donate: "donate",
+  order: "order",
+  pay: "pay",
+  plain: "plain",
+  subscribe: "subscribe",
+};
+
+const appleButtonStyles: Record<WalletButtonTheme, string> = {
+  dark: "black",
+  light: "white",
+  "light-outline": "white-outline",
+};
+
+// Safari draws the Apple Pay button itself from these properties, which React's style prop doesn't set reliably
+const setAppleButtonStyle = (
+  button: HTMLButtonElement | null,
+  appearance?: { buttonType: WalletButtonType; theme: WalletButtonTheme }
+) => {
+  if (!button) {
+    return;
+  }
+
+  if (appearance) {
+    button.style.setProperty(
+      "-apple-pay-button-style",
+      appleButtonStyles[appearance.theme]
+    );
+    button.style.setProperty(
+      "-apple-pay-button-type",
+      appleButtonTypes[appearance.buttonType]
+    );
+    button.style.setProperty("-webkit-appearance", "-apple-pay-button");
+
+    return;
+  }
+
+  button.style.removeProperty("-apple-pay-button-style");
+  button.style.removeProperty("-apple-pay-button-type");
+
+  if (
+    button.style.getPropertyValue("-webkit-appearance") === "-apple-pay-button"
+  ) {
+    button.style.removeProperty("-webkit-appearance");
+  }
+};
+
+/**
+ * A button that opens the sheet with the preferred wallet, unstyled unless it's branded.
+ * It's disabled while the sheet is open and renders nothing until a wallet is available.
+ *
+ * @example
+ *
+ * <PaymentRequestButton buttonType="donate" className="wallet-button" />
+ */
+export const PaymentRequestButton = ({
+  branded,
+  buttonType = "buy",
+  children,
+  disabled,
+  loading = null,
+  onClick,
+  paymentRequest: paymentRequestProp,
+  style,
+  theme = "dark",
+  unavailable = null,
+  ...buttonProps
+}: PaymentRequestButtonProps) => {
+  const contextValue = useContext(PaymentRequestContext);
+  const paymentRequest = paymentRequestProp ?? contextValue?.paymentRequest;
+
+  if (!paymentRequest) {
+    throw new Error(
+      "PaymentRequestButton must be given a paymentRequest or be used within a PaymentRequestProvider"
+    );
+  }
+
+  const [
+    ,
+    { canMakePayment, isAvailable, open, preferredWallet, setOpen, status },
+  ] = paymentRequest;
+
+  if (canMakePayment.loading) {
+    return createElement(Fragment, null, loading);
+  }
+
+  if (!isAvailable || !preferredWallet) {
+    return createElement(Fragment, null, unavailable);
+  }
+
+  const label = getWalletButtonLabel(preferredWallet, buttonType);
+  const appleButtonAppearance =
+    branded && preferredWallet === "applePay"
+      ? { buttonType, theme }
+      : undefined;
+
+  return createElement(
+    "button",
+    {
+      "aria-busy": status === "updating" || status === "processing",
+      "aria-label": label,
+      "data-button-type": buttonType,
+      "data-theme": theme,
+      "data-wallet": preferredWallet,
+      ...buttonProps,
+      disabled: open || Boolean(disabled),
+      onClick: (event: MouseEvent<HTMLButtonElement>) => {
+        onClick?.(event);
+
+        if (!event.defaultPrevented) {
+          setOpen(true);
+        }
+      },
+      ref: (button: HTMLButtonElement | null) =>
+        setAppleButtonStyle(button, appleButtonAppearance),
+      style,
+      type: "button",
+    },
+    children ? children(preferredWallet, label) : label
+  );
+};
+
+/**
+ * Mounts Stripe's own paymentRequestButton element for a usePaymentRequest result, into the element given the returned ref.
+ * The element shows the sheet itself and its clicks go through markOpen, so open & status follow it like they follow PaymentRequestButton.
+ *
+ * @link https://stripe.com/docs/js/elements_object/create_element?type=paymentRequestButton
+ *
+ * @example
+ *
+ * const ref = usePaymentRequestButtonElement(elements, usePaymentRequest(stripe, options), { style });
+ *
+ * return <div ref={ref} />;
+ */
+export const usePaymentRequestButtonElement = (
+  elements: StripeElements | undefined | null,
+  [paymentRequest, { isAvailable, markOpen }]: ReturnType<
+    typeof usePaymentRequest
+  >,
+  elementOptions: Omit<
+    StripePaymentRequestButtonElementOptions,
+    "paymentRequest"
+  > = {}
+) => {
+  const [container, setContainer] = useState<HTMLElement | null>(null);
+  const [element, setElement] = useState<StripePaymentRequestButtonElement>();
+  const latestElementOptions = useLatest(elementOptions);
+  const latestMarkOpen = useLatest(markOpen);
+
+  useEffect(() => {
+    // Stripe only mounts the button for a paymentRequest that can make a payment
+    if (!elements || !paymentRequest || !container || !isAvailable) {
+      return () => {};
+    }
+
+    const newElement = elements.create("paymentRequestButton", {
+      ...latestElementOptions.current,
+      paymentRequest,
+    });
+
+    // The element shows the sheet itself, within the click's user gesture (ie for Apple Pay in Safari)
+    newElement.on("click", () => latestMarkOpen.current());
+    newElement.mount(container);
+    setElement(newElement);
+
+    return () => {
+      setElement(undefined);
+      newElement.destroy();
+    };
+  }, [
+    container,
+    elements,
+    isAvailable,
+    latestElementOptions,
+    latestMarkOpen,
+    paymentRequest,
+  ]);
+
+  const { classes, style } = elementOptions;
+
+  useDeepCompareEffect(() => {
+    element?.update({ classes, style });
+  }, [{ classes, element, style }]);
+
+  return setContainer;
+};
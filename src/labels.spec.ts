@@ -0,0 +1,112 @@
+import { describe, expect, it } from "@jest/globals";
+
+import { getLabels } from "./labels";
+
+describe("getLabels", () => {
+  it("defaults to English", () => {
+    const labels = getLabels();
+
+    expect(labels).toMatchObject({
+      discount: "Discount",
+      shipping: "Shipping",
+      subtotal: "Subtotal",
+      tax: "Tax",
+      total: "Total",
+    });
+    expect(labels.deliveryEstimate({ minDays: 1 })).toBe("1 business day");
+    expect(labels.deliveryEstimate({ maxDays: 5, minDays: 3 })).toBe(
+      "3–5 business days"
+    );
+  });
+
+  it("falls back to the locale's language", () => {
+    const labels = getLabels("fr-CA");
+
+    expect(labels.subtotal).toBe("Sous-total");
+    expect(labels.deliveryEstimate({ maxDays: 2, minDays: 2 })).toBe(
+      "2 jours ouvrés"
+    );
+    expect(getLabels("ja-JP").deliveryEstimate({ minDays: 1 })).toBe("1営業日");
+    expect(getLabels("xx").total).toBe("Total");
+  });
+
+  it("uses the catalog's messages first", () => {
+    const labels = getLabels("fr-CA", {
+      "fr-CA": { tax: "TPS" },
+      nl: { total: "Totaal" },
+    });
+
+    expect(labels.tax).toBe("TPS");
+    expect(labels.total).toBe("Total");
+    expect(getLabels("nl", { nl: { total: "Totaal" } }).total).toBe("Totaal");
+  });
+
+  it("falls back from the locale to its language, then to English", () => {
+    const catalog = {
+      en: { discount: "Savings", tax: "Sales tax", total: "Amount due" },
+      fr: { shipping: "Expédition", tax: "Taxe" },
+      "fr-CA": { tax: "TPS" },
+    };
+    const labels = getLabels("fr-CA", catalog);
+
+    expect(labels).toMatchObject({
+      discount: "Remise",
+      shipping: "Expédition",
+      subtotal: "Sous-total",
+      tax: "TPS",
+      total: "Total",
+    });
+    expect(getLabels("en-GB", catalog)).toMatchObject({
+      discount: "Savings",
+      tax: "Sales tax",
+      total: "Amount due",
+    });
+  });
+
+  it("only applies a locale's messages to that locale", () => {
+    const catalog = { fr: { tax: "Taxe" }, "fr-CA": { tax: "TPS" } };
+
+    expect(getLabels("fr", catalog).tax).toBe("Taxe");
+    expect(getLabels("fr-FR", catalog).tax).toBe("Taxe");
+    expect(getLabels("fr-BE").tax).toBe("Taxes");
+  });
+
+  it("falls back to the other plural category", () => {
+    expect(
+      getLabels("en", {
+        en: { deliveryDays: { other: "{days} days" } },
+      }).deliveryEstimate({ minDays: 1 })
+    ).toBe("1 days");
+
+    const labels = getLabels("ar", {
+      ar: { deliveryDays: { few: "{days} few", other: "{days} other" } },
+    });
+
+    expect(labels.deliveryEstimate({ minDays: 3 })).toBe("3 few");
+    expect(labels.deliveryEstimate({ minDays: 2 })).toBe("2 other");
+  });
+
+  it("interpolates the delivery range", () => {
+    const labels = getLabels("de", {
+      de: { deliveryRange: "{min} bis {max} Tage ({days})" },
+    });
+
+    expect(labels.deliveryEstimate({ maxDays: 1500, minDays: 1000 })).toBe(
+      "1.000 bis 1.500 Tage ({days})"
+    );
+    expect(labels.deliveryEstimate({ maxDays: 1, minDays: 1 })).toBe(
+      "1 Werktag"
+    );
+    expect(getLabels("de").deliveryEstimate({ maxDays: 4, minDays: 2 })).toBe(
+      "2–4 Werktage"
+    );
+  });
+
+  it("formats numbers for the locale", () => {
+    expect(
+      getLabels("ar-EG", {
+        ar: { deliveryDays: { other: "{days}" } },
+      }).deliveryEstimate({ minDays: 3 })
+    ).toBe("٣");
+  });
+});
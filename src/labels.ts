@@ -0,0 +1,134 @@
+/**
+ * Messages can have `{placeholders}`, which are replaced with numbers formatted for the locale
+ */
+export interface LabelMessages {
+  /** {days} business days, by the locale's plural category (ie "one" & "other") */
+  deliveryDays: { other: string } & Record<string, string>;
+  /** {min} to {max} business days */
+  deliveryRange: string;
+  discount: string;
+  shipping: string;
+  subtotal: string;
+  tax: string;
+  total: string;
+}
+
+/**
+ * Messages by locale (ie "fr" or "fr-CA"). A locale's messages fall back to its language's, then to English.
+ */
+export type LabelCatalog = Record<string, Partial<LabelMessages>>;
+
+export const defaultLabelCatalog: Record<string, LabelMessages> & {
+  en: LabelMessages;
+} = {
+  de: {
+    deliveryDays: { one: "{days} Werktag", other: "{days} Werktage" },
+    deliveryRange: "{min}–{max} Werktage",
+    discount: "Rabatt",
+    shipping: "Versand",
+    subtotal: "Zwischensumme",
+    tax: "Steuer",
+    total: "Gesamt",
+  },
+  en: {
+    deliveryDays: { one: "{days} business day", other: "{days} business days" },
+    deliveryRange: "{min}–{max} business days",
+    discount: "Discount",
+    shipping: "Shipping",
+    subtotal: "Subtotal",
+    tax: "Tax",
+    total: "Total",
+  },
+  es: {
+    deliveryDays: { one: "{days} día hábil", other: "{days} días hábiles" },
+    deliveryRange: "{min}–{max} días hábiles",
+    discount: "Descuento",
+    shipping: "Envío",
+    subtotal: "Subtotal",
+    tax: "Impuestos",
+    total: "Total",
+  },
+  fr: {
+    deliveryDays: { one: "{days} jour ouvré", other: "{days} jours ouvrés" },
+    deliveryRange: "{min} à {max} jours ouvrés",
+    discount: "Remise",
+    shipping: "Livraison",
+    subtotal: "Sous-total",
+    tax: "Taxes",
+    total: "Total",
+  },
+  ja: {
+    deliveryDays: { other: "{days}営業日" },
+    deliveryRange: "{min}〜{max}営業日",
+    discount: "割引",
+    shipping: "配送料",
+    subtotal: "小計",
+    tax: "税",
+    total: "合計",
+  },
+};
+
+export interface DeliveryEstimate {
+  /** Business days, the same as minDays if omitted */
+  maxDays?: number;
+  minDays: number;
+}
+
+export interface Labels
+  extends Omit<LabelMessages, "deliveryDays" | "deliveryRange"> {
+  /** A shipping option's detail, ie "3–5 business days" */
+  deliveryEstimate: (estimate: DeliveryEstimate) => string;
+}
+
+/**
+ * Labels for the total, subtotal, shipping, tax & discount lines and shipping options' delivery estimates, in the locale (ie navigator.language).
+ * The catalog's messages take precedence over the default ones, for other locales or wordings.
+ *
+ * @example
+ *
+ * const labels = getLabels("fr-CA");
+ * const details = getCartDetails({
+ *   items,
+ *   shippingOptions: [{ amount: 500, detail: labels.deliveryEstimate({ maxDays: 5, minDays: 3 }), id: "ground", label: labels.shipping }],
+ *   taxes: [{ amount: 64, label: labels.tax }],
+ *   totalLabel: labels.total,
+ * });
+ */
+export const getLabels = (
+  locale = "en",
+  catalog: LabelCatalog = {}
+): Labels => {
+  const [language = "en"] = locale.split("-");
+  const { deliveryDays, deliveryRange, ...labels } = [
+    "en",
+    language,
+    locale,
+  ].reduce<LabelMessages>(
+    (messages, fallback) => ({
+      ...messages,
+      ...defaultLabelCatalog[fallback],
+      ...catalog[fallback],
+    }),
+    defaultLabelCatalog.en
+  );
+  const numberFormat = new Intl.NumberFormat(locale);
+  const pluralRules = new Intl.PluralRules(locale);
+
+  const interpolate = (message: string, values: Record<string, number>) =>
+    message.replace(/\{(\w+)\}/gu, (placeholder, name: string) => {
+      const value = values[name];
+
+      return value === undefined ? placeholder : numberFormat.format(value);
+    });
+
+  return {
+    ...labels,
+    deliveryEstimate: ({ maxDays, minDays }) =>
+      maxDays === undefined || maxDays === minDays
+        ? interpolate(
+            deliveryDays[pluralRules.select(minDays)] ?? deliveryDays.other,
+            { days: minDays }
+          )
+        : interpolate(deliveryRange, { max: maxDays, min: minDays }),
+  };
+};
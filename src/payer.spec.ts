@@ -0,0 +1,61 @@
+import { describe, expect, it } from "@jest/globals";
+
+import { validatePayer } from "./payer";
+
+describe("validatePayer", () => {
+  it("normalizes the payer's details", () => {
+    expect(
+      validatePayer({
+        payerEmail: " Jane@Example.COM ",
+        payerName: "  Jane   Doe ",
+        payerPhone: "+1 (555) 555-0100",
+      })
+    ).toStrictEqual({
+      value: {
+        payerEmail: "Jane@example.com",
+        payerName: "Jane Doe",
+        payerPhone: "+15555550100",
+      },
+    });
+  });
+
+  it("rejects a malformed email", () => {
+    expect(validatePayer({ payerEmail: "jane@example" })).toStrictEqual({
+      status: "invalid_payer_email",
+    });
+  });
+
+  it("rejects phone numbers that aren't E.164", () => {
+    expect(validatePayer({ payerPhone: "555-0100" })).toStrictEqual({
+      status: "invalid_payer_phone",
+    });
+    expect(validatePayer({ payerPhone: "+1 555" })).toStrictEqual({
+      status: "invalid_payer_phone",
+    });
+  });
+
+  it("completes national phone numbers with the default calling code", () => {
+    expect(
+      validatePayer(
+        { payerPhone: "020 7946 0018" },
+        { defaultCallingCode: "44" }
+      )
+    ).toStrictEqual({ value: { payerPhone: "+442079460018" } });
+    expect(validatePayer({ payerPhone: "0044 20 7946 0018" })).toStrictEqual({
+      value: { payerPhone: "+442079460018" },
+    });
+  });
+
+  it("requires the requested details", () => {
+    expect(validatePayer({}, { requestPayerName: true })).toStrictEqual({
+      status: "invalid_payer_name",
+    });
+    expect(
+      validatePayer({ payerName: " " }, { requestPayerName: true })
+    ).toStrictEqual({ status: "invalid_payer_name" });
+    expect(validatePayer({}, { requestPayerEmail: true })).toStrictEqual({
+      status: "invalid_payer_email",
+    });
+    expect(validatePayer({})).toStrictEqual({ value: {} });
+  });
+});
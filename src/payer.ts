@@ -0,0 +1,125 @@
+import type {
+  PaymentRequestOptions,
+  PaymentRequestPaymentMethodEvent,
+} from "@stripe/stripe-js";
+
+/**
+ * The payer's details every payment event has, once they're requested
+ */
+export type PayerDetails = Pick<
+  PaymentRequestPaymentMethodEvent,
+  "payerEmail" | "payerName" | "payerPhone"
+>;
+
+export type PayerValidationOptions = Pick<
+  PaymentRequestOptions,
+  "requestPayerEmail" | "requestPayerName" | "requestPayerPhone"
+> & {
+  /** Calling code (ie "1") for phone numbers given without one. Without it, those are invalid */
+  defaultCallingCode?: string;
+};
+
+export type PayerValidationResult<Value extends PayerDetails> =
+  | {
+      status:
+        | "invalid_payer_email"
+        | "invalid_payer_name"
+        | "invalid_payer_phone";
+    }
+  | { value: Value };
+
+const emailPattern = /^[^\s@]+@[^\s@]+\.[^\s@]+$/u;
+
+const normalizeEmail = (email: string) => {
+  const trimmed = email.trim();
+
+  return emailPattern.test(trimmed)
+    ? trimmed.replace(/@.+$/u, (domain) => domain.toLowerCase())
+    : undefined;
+};
+
+const normalizeName = (name: string) =>
+  name.trim().replace(/\s+/gu, " ") || undefined;
+
+const normalizePhone = (phone: string, defaultCallingCode?: string) => {
+  const dialed = phone.replace(/[\s().-]/gu, "").replace(/^00/u, "+");
+  const international =
+    dialed.startsWith("+") || !defaultCallingCode
+      ? dialed
+      : `+${defaultCallingCode}${dialed.replace(/^0/u, "")}`;
+
+  return /^\+[1-9]\d{6,14}$/u.test(international) ? international : undefined;
+};
+
+// undefined when it's missing, null when it's invalid
+const normalizeField = (
+  field: string | undefined,
+  required: boolean | undefined,
+  normalize: (field: string) => string | undefined
+) => {
+  if (!field) {
+    return required ? null : undefined;
+  }
+
+  return normalize(field) ?? null;
+};
+
+/**
+ * Checks the payer's details that are given (and the requested ones are), normalizing them: a trimmed email with a lowercase domain, an E.164 phone number and a name without extra whitespace
+ *
+ * @example
+ *
+ * const result = validatePayer(paymentResponse, { requestPayerEmail: true, requestPayerPhone: true });
+ *
+ * if ("status" in result) {
+ *   return result.status;
+ * }
+ */
+export const validatePayer = <Value extends PayerDetails>(
+  value: Value,
+  {
+    defaultCallingCode,
+    requestPayerEmail,
+    requestPayerName,
+    requestPayerPhone,
+  }: PayerValidationOptions = {}
+): PayerValidationResult<Value> => {
+  const payerEmail = normalizeField(
+    value.payerEmail,
+    requestPayerEmail,
+    normalizeEmail
+  );
+
+  if (payerEmail === null) {
+    return { status: "invalid_payer_email" };
+  }
+
+  const payerPhone = normalizeField(
+    value.payerPhone,
+    requestPayerPhone,
+    (phone) => normalizePhone(phone, defaultCallingCode)
+  );
+
+  if (payerPhone === null) {
+    return { status: "invalid_payer_phone" };
+  }
+
+  const payerName = normalizeField(
+    value.payerName,
+    requestPayerName,
+    normalizeName
+  );
+
+  if (payerName === null) {
+    return { status: "invalid_payer_name" };
+  }
+
+  return {
+    value: {
+      ...value,
+      ...(payerEmail && { payerEmail }),
+      ...(payerName && { payerName }),
+      ...(payerPhone && { payerPhone }),
+    },
+  };
+};
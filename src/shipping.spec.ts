@@ -0,0 +1,135 @@
+import { describe, expect, it } from "@jest/globals";
+
+import { getCartDetails } from "./cart";
+import { createShippingRules, matchShippingRule } from "./shipping";
+
+import type { ShippingRule } from "./shipping";
+
+const ground = {
+  amount: 500,
+  detail: "5-7 days",
+  id: "ground",
+  label: "Ground",
+};
+const express = {
+  amount: 1500,
+  detail: "1 day",
+  id: "express",
+  label: "Express",
+};
+const rules: ShippingRule[] = [
+  { country: "US", region: ["AK", "HI"], status: "invalid_shipping_address" },
+  {
+    country: "US",
+    postalCode: { from: "10000", to: "14999" },
+    shippingOptions: [express, ground],
+  },
+  { country: "US", shippingOptions: [ground] },
+  { country: "CA", postalCode: ["V", "T"], shippingOptions: [express] },
+];
+
+describe("matchShippingRule", () => {
+  it("matches the first rule for the address", () => {
+    expect(matchShippingRule(rules, { country: "US", region: "CA" })).toBe(
+      rules[2]
+    );
+    expect(matchShippingRule(rules, { country: "US", region: "HI" })).toBe(
+      rules[0]
+    );
+  });
+
+  it("ignores case and whitespace", () => {
+    expect(
+      matchShippingRule(rules, { country: "ca", postalCode: "v6b 1a1" })
+    ).toBe(rules[3]);
+  });
+
+  it("matches postal code ranges against their leading characters", () => {
+    expect(
+      matchShippingRule(rules, { country: "US", postalCode: "10001-1234" })
+    ).toBe(rules[1]);
+    expect(
+      matchShippingRule(rules, { country: "US", postalCode: "15001" })
+    ).toBe(rules[2]);
+    expect(matchShippingRule(rules, { country: "US", postalCode: "100" })).toBe(
+      rules[2]
+    );
+  });
+
+  it("doesn't match fields the address is missing", () => {
+    expect(matchShippingRule(rules, { country: "CA" })).toBeUndefined();
+    expect(matchShippingRule(rules, {})).toBeUndefined();
+  });
+});
+
+describe("createShippingRules", () => {
+  const getShippingRates = createShippingRules(rules);
+
+  it("updates with the matching rule's shippingOptions", () => {
+    expect(getShippingRates({ country: "US", postalCode: "12345" })).toEqual({
+      shippingOptions: [express, ground],
+      status: "success",
+    });
+  });
+
+  it("updates with the matching rule's status", () => {
+    expect(getShippingRates({ country: "US", region: "AK" })).toEqual({
+      status: "invalid_shipping_address",
+    });
+  });
+
+  it("can't ship to unmatched addresses", () => {
+    expect(getShippingRates({ country: "FR" })).toEqual({
+      status: "invalid_shipping_address",
+    });
+  });
+
+  it("adds the details for the first shipping option", () => {
+    expect(
+      createShippingRules(rules, (shippingOptions) => ({
+        total: {
+          amount: 1000 + (shippingOptions[0]?.amount ?? 0),
+          label: "Total",
+        },
+      }))({ country: "US", postalCode: "12345" })
+    ).toEqual({
+      shippingOptions: [express, ground],
+      status: "success",
+      total: { amount: 2500, label: "Total" },
+    });
+  });
+
+  it("updates with the shippingOptions from the details", () => {
+    const getCartRates = createShippingRules(rules, (shippingOptions) =>
+      getCartDetails({
+        items: [{ amount: 1000, label: "Sticker" }],
+        promotions: [
+          {
+            label: "Free shipping",
+            shippingOptionIds: ["ground"],
+            type: "freeShipping",
+          },
+        ],
+        shippingOption: shippingOptions[0],
+        shippingOptions,
+      })
+    );
+
+    expect(getCartRates({ country: "US", postalCode: "15001" })).toEqual({
+      displayItems: [
+        { amount: 1000, label: "Sticker" },
+        { amount: 500, label: "Ground" },
+        { amount: -500, label: "Free shipping" },
+      ],
+      shippingOptions: [{ ...ground, amount: 0 }],
+      status: "success",
+      total: { amount: 1000, label: "Total" },
+    });
+    expect(getCartRates({ country: "CA", postalCode: "V6B 1A1" })).toEqual(
+      expect.objectContaining({
+        shippingOptions: [express],
+        total: { amount: 2500, label: "Total" },
+      })
+    );
+  });
+});
@@ -0,0 +1,134 @@
+import type {
+  PaymentRequestShippingAddress,
+  PaymentRequestShippingOption,
+  PaymentRequestUpdateDetails,
+  PaymentRequestUpdateDetailsStatus,
+} from "@stripe/stripe-js";
+
+/**
+ * Inclusive, compared against as many leading characters of the postal code as `from` has
+ */
+export interface PostalCodeRange {
+  from: string;
+  to: string;
+}
+
+export interface ShippingDestination {
+  /** Two-letter country codes. Matches every country if omitted */
+  country?: string | string[];
+  /** Prefixes (ie "SW1") or ranges (ie { from: "10000", to: "14999" }). Matches every postal code if omitted */
+  postalCode?: string | PostalCodeRange | (string | PostalCodeRange)[];
+  /** Matches every region if omitted */
+  region?: string | string[];
+}
+
+export type ShippingRule = ShippingDestination &
+  (
+    | { shippingOptions: PaymentRequestShippingOption[] }
+    | { status: Exclude<PaymentRequestUpdateDetailsStatus, "success"> }
+  );
+
+const normalize = (value: string) => value.replace(/\s/gu, "").toUpperCase();
+
+const toArray = <T>(value: T | T[]) => (Array.isArray(value) ? value : [value]);
+
+const matchesValue = (
+  value: string | undefined,
+  expected: string | string[] | undefined
+) =>
+  !expected ||
+  (value !== undefined &&
+    toArray(expected).some((other) => normalize(other) === normalize(value)));
+
+const matchesPostalCode = (
+  postalCode: string | undefined,
+  expected: ShippingDestination["postalCode"]
+) => {
+  if (!expected) {
+    return true;
+  }
+
+  if (postalCode === undefined) {
+    return false;
+  }
+
+  const code = normalize(postalCode);
+
+  return toArray(expected).some((prefixOrRange) => {
+    if (typeof prefixOrRange === "string") {
+      return code.startsWith(normalize(prefixOrRange));
+    }
+
+    const from = normalize(prefixOrRange.from);
+    const to = normalize(prefixOrRange.to);
+    const leading = code.slice(0, from.length);
+
+    return leading.length === from.length && leading >= from && leading <= to;
+  });
+};
+
+/**
+ * Whether the address's country, region and postal code all match the destination
+ */
+export const matchesDestination = (
+  { country, postalCode, region }: PaymentRequestShippingAddress,
+  destination: ShippingDestination
+) =>
+  matchesValue(country, destination.country) &&
+  matchesValue(region, destination.region) &&
+  matchesPostalCode(postalCode, destination.postalCode);
+
+/**
+ * The first rule that matches the address
+ */
+export const matchShippingRule = <Rule extends ShippingRule>(
+  rules: Rule[],
+  shippingAddress: PaymentRequestShippingAddress
+) => rules.find((rule) => matchesDestination(shippingAddress, rule));
+
+/**
+ * A shipping address callback that updates with the first matching rule's shippingOptions or status, and `invalid_shipping_address` when none match.
+ * The sheet selects the first of the new shippingOptions, so getDetails can give the displayItems & total that go with it, and the shippingOptions as priced (ie by free shipping).
+ *
+ * @example
+ *
+ * const getShippingRates = createShippingRules(
+ *   [
+ *     { country: "US", region: ["AK", "HI"], status: "invalid_shipping_address" },
+ *     { country: "US", shippingOptions: [ground, express] },
+ *     { country: "CA", postalCode: ["V", "T"], shippingOptions: [westernCanada] },
+ *   ],
+ *   (shippingOptions) => withShippingOption(details, shippingOptions[0])
+ * );
+ *
+ * usePaymentRequestShippingAddress(paymentRequest, options, getShippingRates);
+ */
+export const createShippingRules =
+  (
+    rules: ShippingRule[],
+    getDetails?: (
+      shippingOptions: PaymentRequestShippingOption[]
+    ) => Pick<
+      PaymentRequestUpdateDetails,
+      "displayItems" | "shippingOptions" | "total"
+    >
+  ) =>
+  (
+    shippingAddress: PaymentRequestShippingAddress
+  ): PaymentRequestUpdateDetails => {
+    const rule = matchShippingRule(rules, shippingAddress);
+
+    if (!rule) {
+      return { status: "invalid_shipping_address" };
+    }
+
+    if ("status" in rule) {
+      return { status: rule.status };
+    }
+
+    return {
+      shippingOptions: rule.shippingOptions,
+      ...getDetails?.(rule.shippingOptions),
+      status: "success",
+    };
+  };
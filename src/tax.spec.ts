@@ -0,0 +1,239 @@
+import { createServer, request as httpRequest } from "http";
+
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+
+import {
+  createRemoteTaxProvider,
+  createShippingAddressTaxes,
+  createTaxRateProvider,
+} from "./tax";
+
+import type { RemoteTaxProviderOptions, TaxRequest } from "./tax";
+import type { IncomingMessage, Server, ServerResponse } from "http";
+import type { AddressInfo } from "net";
+
+const ground = {
+  amount: 500,
+  detail: "5-7 days",
+  id: "ground",
+  label: "Ground",
+};
+const taxRequest: TaxRequest = {
+  displayItems: [{ amount: 1000, label: "Shirt" }],
+  shippingAddress: { country: "CA", region: "BC" },
+  shippingOption: ground,
+};
+const context = { signal: new AbortController().signal };
+
+const readBody = async (message: IncomingMessage) =>
+  new Promise<string>((resolve) => {
+    const body = { current: "" };
+
+    message.on("data", (chunk: Buffer) => {
+      body.current += chunk.toString();
+    });
+    message.on("end", () => resolve(body.current));
+  });
+
+const taxProvider = createTaxRateProvider([
+  { country: "CA", label: "GST", rate: 0.05, shipping: true },
+  { country: "CA", label: "PST", rate: 0.07, region: "BC" },
+  { country: "US", label: "Sales tax", rate: 0.0825, region: "TX" },
+]);
+
+describe("createTaxRateProvider", () => {
+  it("has a line for every matching rate", () => {
+    expect(taxProvider(taxRequest, context)).toEqual([
+      { amount: 75, label: "GST" },
+      { amount: 70, label: "PST" },
+    ]);
+  });
+
+  it("rounds to the minor unit", () => {
+    expect(
+      taxProvider(
+        {
+          displayItems: [{ amount: 999, label: "Shirt" }],
+          shippingAddress: { country: "US", region: "TX" },
+        },
+        context
+      )
+    ).toEqual([{ amount: 82, label: "Sales tax" }]);
+  });
+
+  it("has no lines for untaxed addresses", () => {
+    expect(
+      taxProvider(
+        { ...taxRequest, shippingAddress: { country: "FR" } },
+        context
+      )
+    ).toEqual([]);
+  });
+});
+
+describe("createRemoteTaxProvider", () => {
+  let server: Server;
+  let url: string;
+  let respond: (body: unknown) => { body: unknown; statusCode: number };
+
+  // The test environment has no fetch, so the stub server is requested over http
+  const fetchOverHttp: RemoteTaxProviderOptions["fetch"] = async (
+    input,
+    { body, headers, method }
+  ) =>
+    new Promise((resolve, reject) => {
+      const req = httpRequest(
+        input,
+        { headers: headers as Record<string, string>, method },
+        (res) =>
+          resolve({
+            json: async () => JSON.parse(await readBody(res)) as unknown,
+            ok: res.statusCode === 200,
+            status: res.statusCode ?? 0,
+          })
+      );
+
+      req.on("error", reject);
+      req.end(body);
+    });
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const { body, statusCode } = respond(JSON.parse(await readBody(req)));
+
+    res.writeHead(statusCode, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  };
+
+  beforeEach(async () => {
+    jest.useRealTimers();
+    server = createServer((req, res) => {
+      void handle(req, res);
+    });
+
+    await new Promise<void>((resolve) => {
+      server.listen(0, "127.0.0.1", resolve);
+    });
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/taxes`;
+  });
+
+  afterEach(async () => {
+    jest.useFakeTimers();
+    await new Promise((resolve) => {
+      server.close(resolve);
+    });
+  });
+
+  it("posts the request and returns the server's taxes", async () => {
+    const received = jest.fn(() => ({
+      body: { taxes: [{ amount: 130, label: "HST" }] },
+      statusCode: 200,
+    }));
+
+    respond = received;
+
+    await expect(
+      createRemoteTaxProvider(url, { fetch: fetchOverHttp })(
+        taxRequest,
+        context
+      )
+    ).resolves.toEqual([{ amount: 130, label: "HST" }]);
+    expect(received).toHaveBeenCalledWith(taxRequest);
+  });
+
+  it("rejects when the server fails", async () => {
+    respond = () => ({ body: {}, statusCode: 500 });
+
+    await expect(
+      createRemoteTaxProvider(url, { fetch: fetchOverHttp })(
+        taxRequest,
+        context
+      )
+    ).rejects.toThrow(`${url} responded with 500`);
+  });
+
+  it("rejects when the server doesn't respond with taxes", async () => {
+    respond = () => ({ body: {}, statusCode: 200 });
+
+    await expect(
+      createRemoteTaxProvider(url, { fetch: fetchOverHttp })(
+        taxRequest,
+        context
+      )
+    ).rejects.toThrow(`${url} didn't respond with taxes`);
+  });
+});
+
+describe("createShippingAddressTaxes", () => {
+  it("updates with the cart's details and its taxes", async () => {
+    const onShippingAddressChange = createShippingAddressTaxes(
+      taxProvider,
+      () => ({
+        items: [{ amount: 1000, label: "Shirt" }],
+        shippingOptions: [ground],
+      })
+    );
+
+    await expect(
+      onShippingAddressChange({ country: "CA", region: "BC" }, context)
+    ).resolves.toStrictEqual({
+      displayItems: [
+        { amount: 1000, label: "Shirt" },
+        { amount: 75, label: "GST" },
+        { amount: 70, label: "PST" },
+        { amount: 500, label: "Ground" },
+      ],
+      shippingOptions: [ground],
+      status: "success",
+      total: { amount: 1645, label: "Total" },
+    });
+  });
+
+  it("gives the taxProvider the items & discounts without shipping", async () => {
+    const spy = jest.fn(() => []);
+
+    await createShippingAddressTaxes(spy, () => ({
+      discounts: [{ amount: 100, label: "Sale" }],
+      items: [{ amount: 1000, label: "Shirt" }],
+      shippingOptions: [ground],
+      taxes: [{ amount: 10, label: "Eco fee" }],
+    }))({ country: "CA" }, context);
+
+    expect(spy).toHaveBeenCalledWith(
+      {
+        displayItems: [
+          { amount: 1000, label: "Shirt" },
+          { amount: -100, label: "Sale" },
+        ],
+        shippingAddress: { country: "CA" },
+        shippingOption: ground,
+      },
+      context
+    );
+  });
+
+  it("taxes promotions but not gift cards or free shipping", async () => {
+    const spy = jest.fn(() => []);
+
+    await createShippingAddressTaxes(spy, () => ({
+      items: [{ amount: 1000, label: "Shirt" }],
+      promotions: [
+        { label: "Sale", percentOff: 10, type: "percentage" },
+        { label: "Free shipping", type: "freeShipping" },
+        { balance: 500, label: "Gift card", type: "giftCard" },
+      ],
+      shippingOptions: [ground],
+    }))({ country: "CA" }, context);
+
+    expect(spy).toHaveBeenCalledWith(
+      {
+        displayItems: [
+          { amount: 1000, label: "Shirt" },
+          { amount: -100, label: "Sale" },
+        ],
+        shippingAddress: { country: "CA" },
+        shippingOption: { ...ground, amount: 0 },
+      },
+      context
+    );
+  });
+});
@@ -0,0 +1,154 @@
+import { sumBy } from "lodash/fp";
+
+import { getCartDetails } from "./cart";
+import { matchesDestination } from "./shipping";
+
+import type { Cart, CartLine } from "./cart";
+import type { MaybePromise, PaymentRequestEventContext } from "./events";
+import type { ShippingDestination } from "./shipping";
+import type {
+  PaymentRequestItem,
+  PaymentRequestShippingAddress,
+  PaymentRequestShippingOption,
+  PaymentRequestUpdateDetails,
+} from "@stripe/stripe-js";
+
+export interface TaxRequest {
+  /** The cart's items & discounts, without shipping or taxes */
+  displayItems: PaymentRequestItem[];
+  shippingAddress: PaymentRequestShippingAddress;
+  /** The shipping option the sheet will have selected */
+  shippingOption?: PaymentRequestShippingOption;
+}
+
+/**
+ * Returns the tax lines for the address. Rejecting updates the shipping address with "fail".
+ */
+export type TaxProvider = (
+  request: TaxRequest,
+  context: PaymentRequestEventContext
+) => MaybePromise<CartLine[]>;
+
+export type TaxRate = ShippingDestination & {
+  label: string;
+  /** A fraction, ie 0.0825 for 8.25% */
+  rate: number;
+  /** Whether the shipping option is taxed too. Defaults to false */
+  shipping?: boolean;
+};
+
+/**
+ * An offline TaxProvider with a line for every rate that matches the address (ie GST & PST), rounded to the minor unit
+ *
+ * @example
+ *
+ * const taxProvider = createTaxRateProvider([
+ *   { country: "CA", label: "GST", rate: 0.05, shipping: true },
+ *   { country: "CA", label: "PST", rate: 0.07, region: "BC" },
+ * ]);
+ */
+export const createTaxRateProvider =
+  (rates: TaxRate[]): TaxProvider =>
+  ({ displayItems, shippingAddress, shippingOption }) =>
+    rates
+      .filter((rate) => matchesDestination(shippingAddress, rate))
+      .map(({ label, rate, shipping }) => ({
+        amount: Math.round(
+          (sumBy("amount", displayItems) +
+            (shipping && shippingOption ? shippingOption.amount : 0)) *
+            rate
+        ),
+        label,
+      }));
+
+export interface RemoteTaxProviderOptions {
+  /** Defaults to the global fetch, can be replaced for tests or other transports */
+  fetch?: (
+    url: string,
+    init: RequestInit
+  ) => Promise<Pick<Response, "json" | "ok" | "status">>;
+  headers?: Record<string, string>;
+}
+
+/**
+ * A TaxProvider that POSTs the TaxRequest as JSON to url, which responds with `{ taxes: CartLine[] }`
+ *
+ * @example
+ *
+ * const taxProvider = createRemoteTaxProvider("/api/taxes");
+ */
+export const createRemoteTaxProvider =
+  (
+    url: string,
+    {
+      fetch: fetchTaxes = async (input, init) => fetch(input, init),
+      headers,
+    }: RemoteTaxProviderOptions = {}
+  ): TaxProvider =>
+  async (request, { signal }) => {
+    const response = await fetchTaxes(url, {
+      body: JSON.stringify(request),
+      headers: { "Content-Type": "application/json", ...headers },
+      method: "POST",
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`${url} responded with ${response.status}`);
+    }
+
+    const { taxes } = (await response.json()) as { taxes?: CartLine[] };
+
+    if (!Array.isArray(taxes)) {
+      throw new Error(`${url} didn't respond with taxes`);
+    }
+
+    return taxes;
+  };
+
+/**
+ * A shipping address callback that adds the taxProvider's lines to the cart's taxes and updates with its details
+ *
+ * @example
+ *
+ * usePaymentRequestShippingAddress(
+ *   paymentRequest,
+ *   options,
+ *   createShippingAddressTaxes(taxProvider, () => cart)
+ * );
+ */
+export const createShippingAddressTaxes =
+  (
+    taxProvider: TaxProvider,
+    getCart: (
+      shippingAddress: PaymentRequestShippingAddress,
+      context: PaymentRequestEventContext
+    ) => MaybePromise<Cart>
+  ) =>
+  async (
+    shippingAddress: PaymentRequestShippingAddress,
+    context: PaymentRequestEventContext
+  ): Promise<PaymentRequestUpdateDetails> => {
+    const cart = await getCart(shippingAddress, context);
+    const taxes = await taxProvider(
+      {
+        // Gift cards pay for the order rather than discount it, so they aren't taken off what's taxed
+        displayItems: getCartDetails({
+          discounts: cart.discounts,
+          items: cart.items,
+          promotions: cart.promotions?.filter(
+            ({ type }) => type === "amount" || type === "percentage"
+          ),
+        }).displayItems,
+        shippingAddress,
+        // Listed first, and free if a promotion makes it free
+        shippingOption: getCartDetails(cart).shippingOptions[0],
+      },
+      context
+    );
+
+    return {
+      ...getCartDetails({ ...cart, taxes: [...(cart.taxes ?? []), ...taxes] }),
+      status: "success",
+    };
+  };
@@ -0,0 +1,318 @@
+import { describe, expect, it } from "@jest/globals";
+import { act, renderHook } from "@testing-library/react-hooks";
+
+import {
+  createMockPaymentRequest,
+  createMockStripe,
+  getMockPaymentRequestState,
+  simulateCancel,
+  simulatePaymentMethod,
+  simulateShippingAddressChange,
+  simulateShippingOptionChange,
+  simulateSource,
+  simulateToken,
+} from "./testing";
+
+import {
+  createPaymentRequestController,
+  usePaymentRequest,
+  usePaymentRequestPaymentIntent,
+  usePaymentRequestShippingAddress,
+} from ".";
+
+import type { PaymentRequestController } from ".";
+import type {
+  PaymentIntentResult,
+  PaymentRequest,
+  PaymentRequestOptions,
+} from "@stripe/stripe-js";
+
+const options: PaymentRequestOptions = {
+  country: "US",
+  currency: "cad",
+  displayItems: [{ amount: 75, label: "An Item" }],
+  shippingOptions: [
+    {
+      amount: 25,
+      detail: "This is shipping",
+      id: "shipping",
+      label: "Shipping",
+    },
+  ],
+  total: {
+    amount: 100,
+    label: "Total",
+  },
+};
+
+const ready = async (controller: PaymentRequestController) =>
+  new Promise<void>((resolve) => {
+    const unsubscribe = controller.subscribe(({ status }) => {
+      if (status === "ready") {
+        unsubscribe();
+        resolve();
+      }
+    });
+  });
+
+describe("createMockPaymentRequest", () => {
+  it("can make a payment with google pay", async () => {
+    await expect(createMockPaymentRequest().canMakePayment()).resolves.toEqual({
+      applePay: false,
+      googlePay: true,
+    });
+  });
+
+  it("can be made without a wallet", async () => {
+    await expect(
+      createMockPaymentRequest({ canMakePayment: null }).canMakePayment()
+    ).resolves.toBeNull();
+  });
+
+  it("tracks showing and updates", () => {
+    const paymentRequest = createMockPaymentRequest();
+
+    paymentRequest.update({ total: { amount: 100, label: "Total" } });
+    paymentRequest.show();
+
+    expect(paymentRequest.isShowing()).toBe(true);
+    expect(getMockPaymentRequestState(paymentRequest)).toEqual({
+      showing: true,
+      updates: [{ total: { amount: 100, label: "Total" } }],
+    });
+
+    void paymentRequest.abort?.();
+
+    expect(paymentRequest.isShowing()).toBe(false);
+  });
+
+  it("throws on update while showing, like Stripe's", () => {
+    const paymentRequest = createMockPaymentRequest();
+
+    paymentRequest.show();
+
+    expect(() =>
+      paymentRequest.update({ total: { amount: 100, label: "Total" } })
+    ).toThrow(
+      "You cannot update Payment Request options while the payment sheet is showing."
+    );
+    expect(getMockPaymentRequestState(paymentRequest)).toEqual({
+      showing: true,
+      updates: [],
+    });
+  });
+
+  it("removes handlers", () => {
+    const paymentRequest = createMockPaymentRequest();
+    const handler = jest.fn();
+
+    paymentRequest.on("cancel", handler);
+    paymentRequest.off("cancel", handler);
+
+    expect(() => simulateCancel(paymentRequest)).toThrow(
+      "The paymentRequest isn't listening to cancel"
+    );
+
+    paymentRequest.once("cancel", handler);
+    simulateCancel(paymentRequest);
+
+    expect(() => simulateCancel(paymentRequest)).toThrow(
+      "The paymentRequest isn't listening to cancel"
+    );
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("only simulates mock paymentRequests", () => {
+    const paymentRequest: Partial<PaymentRequest> = {};
+
+    expect(() => simulateCancel(paymentRequest as PaymentRequest)).toThrow(
+      "Only a paymentRequest from createMockPaymentRequest or createMockStripe can be simulated"
+    );
+  });
+});
+
+describe("createMockStripe", () => {
+  const requiresAction = {
+    paymentIntent: { id: "pi_mock", status: "requires_action" },
+  } as unknown as PaymentIntentResult;
+  const succeeded = {
+    paymentIntent: { id: "pi_mock", status: "succeeded" },
+  } as unknown as PaymentIntentResult;
+
+  it("confirms card payments with each result in turn", async () => {
+    const stripe = createMockStripe({
+      confirmCardPayment: [requiresAction, succeeded],
+    });
+
+    await expect(stripe.confirmCardPayment("pi_mock_secret")).resolves.toBe(
+      requiresAction
+    );
+    await expect(stripe.confirmCardPayment("pi_mock_secret")).resolves.toBe(
+      succeeded
+    );
+    await expect(stripe.confirmCardPayment("pi_mock_secret")).resolves.toBe(
+      succeeded
+    );
+  });
+
+  it("confirms card payments with a function", async () => {
+    const confirmCardPayment = jest.fn(() => succeeded);
+    const stripe = createMockStripe({ confirmCardPayment });
+
+    await expect(
+      stripe.confirmCardPayment("pi_mock_secret", { payment_method: "pm_mock" })
+    ).resolves.toBe(succeeded);
+    expect(confirmCardPayment).toHaveBeenCalledWith("pi_mock_secret", {
+      payment_method: "pm_mock",
+    });
+  });
+});
+
+describe("simulate", () => {
+  it("resolves shipping events with their update", async () => {
+    const paymentRequest = createMockPaymentRequest();
+
+    paymentRequest.on("shippingaddresschange", ({ updateWith }) =>
+      updateWith({ status: "invalid_shipping_address" })
+    );
+    paymentRequest.on(
+      "shippingoptionchange",
+      ({ shippingOption, updateWith }) =>
+        updateWith({
+          status: "success",
+          total: { amount: shippingOption.amount, label: "Total" },
+        })
+    );
+
+    await expect(
+      simulateShippingAddressChange(paymentRequest, { country: "CA" })
+    ).resolves.toEqual({ status: "invalid_shipping_address" });
+    await expect(
+      simulateShippingOptionChange(paymentRequest, {
+        amount: 25,
+        detail: "This is shipping",
+        id: "shipping",
+        label: "Shipping",
+      })
+    ).resolves.toEqual({
+      status: "success",
+      total: { amount: 25, label: "Total" },
+    });
+  });
+
+  it("resolves payment events with their status and closes the sheet", async () => {
+    const paymentRequest = createMockPaymentRequest();
+    const onPaymentMethod = jest.fn();
+
+    paymentRequest.on("paymentmethod", (event) => {
+      onPaymentMethod(event);
+      event.complete("success");
+    });
+    paymentRequest.on("source", ({ complete, source }) =>
+      complete(source.id === "src_mock" ? "success" : "fail")
+    );
+    paymentRequest.on("token", ({ complete }) => complete("fail"));
+    paymentRequest.show();
+
+    await expect(
+      simulatePaymentMethod(paymentRequest, { payerEmail: "a@b.c" })
+    ).resolves.toBe("success");
+    expect(paymentRequest.isShowing()).toBe(false);
+    expect(onPaymentMethod).toHaveBeenCalledWith({
+      complete: expect.any(Function),
+      methodName: "https://google.com/pay",
+      payerEmail: "a@b.c",
+      paymentMethod: { id: "pm_mock" },
+      walletName: "googlePay",
+    });
+    await expect(simulateSource(paymentRequest)).resolves.toBe("success");
+    await expect(simulateToken(paymentRequest)).resolves.toBe("fail");
+  });
+
+  it("drives a checkout through the controller", async () => {
+    const controller = createPaymentRequestController(
+      createMockStripe(),
+      options
+    );
+
+    controller.onShippingAddressChange(() => "success");
+    controller.onPaymentMethod(() => "success");
+    await ready(controller);
+    controller.setOpen(true);
+
+    expect(controller.getState()).toHaveProperty("status", "showing");
+    await expect(
+      simulateShippingAddressChange(controller.paymentRequest)
+    ).resolves.toEqual({
+      displayItems: options.displayItems,
+      shippingOptions: options.shippingOptions,
+      status: "success",
+      total: options.total,
+    });
+    await expect(
+      simulatePaymentMethod(controller.paymentRequest)
+    ).resolves.toBe("success");
+    expect(controller.getState()).toHaveProperty("status", "succeeded");
+  });
+
+  it("drives a checkout through the hooks", async () => {
+    const stripe = createMockStripe();
+    const { result, waitForNextUpdate } = renderHook(() => {
+      const [paymentRequest, state] = usePaymentRequest(stripe, options);
+
+      usePaymentRequestShippingAddress(
+        paymentRequest,
+        options,
+        () => "success"
+      );
+
+      return {
+        paymentIntent: usePaymentRequestPaymentIntent(
+          stripe,
+          paymentRequest,
+          () => "pi_mock_secret"
+        ),
+        paymentRequest,
+        state,
+      };
+    });
+
+    await waitForNextUpdate();
+    act(() => result.current.state.setOpen(true));
+
+    const { paymentRequest } = result.current;
+
+    expect(
+      paymentRequest && getMockPaymentRequestState(paymentRequest)
+    ).toEqual({
+      showing: true,
+      updates: [expect.objectContaining({ total: options.total })],
+    });
+
+    await act(async () => {
+      if (paymentRequest) {
+        await simulatePaymentMethod(paymentRequest);
+      }
+    });
+
+    expect(result.current.paymentIntent).toEqual({
+      paymentIntent: { id: "pi_mock", status: "succeeded" },
+      status: "succeeded",
+    });
+    expect(result.current.state.status).toBe("succeeded");
+  });
+
+  it("cancels", async () => {
+    const controller = createPaymentRequestController(
+      createMockStripe(),
+      options
+    );
+
+    await ready(controller);
+    controller.setOpen(true);
+    simulateCancel(controller.paymentRequest);
+
+    expect(controller.paymentRequest.isShowing()).toBe(false);
+    expect(controller.getState()).toHaveProperty("status", "cancelled");
+  });
+});
@@ -0,0 +1,310 @@
+import type { MaybePromise } from "./events";
+import type {
+  CanMakePaymentResult,
+  PaymentIntent,
+  PaymentMethod,
+  PaymentRequest,
+  PaymentRequestCompleteStatus,
+  PaymentRequestEvent,
+  PaymentRequestShippingAddress,
+  PaymentRequestShippingOption,
+  PaymentRequestUpdateDetails,
+  PaymentRequestUpdateOptions,
+  Source,
+  Stripe,
+  Token,
+} from "@stripe/stripe-js";
+
+type Handler = (event?: unknown) => unknown;
+
+interface MockPaymentRequestState {
+  handlers: Partial<Record<string, Handler[]>>;
+  showing: boolean;
+  updates: PaymentRequestUpdateOptions[];
+}
+
+const mockStates = new WeakMap<
+  PaymentRequest,
+  { current: MockPaymentRequestState }
+>();
+
+export interface MockPaymentRequestOptions {
+  /** What canMakePayment resolves with. Defaults to `{ applePay: false, googlePay: true }`, pass `null` for no wallet */
+  canMakePayment?: CanMakePaymentResult | null;
+}
+
+/**
+ * A PaymentRequest that never talks to Stripe, driven with the simulate helpers below.
+ * Like Stripe's, update throws while the sheet is showing.
+ *
+ * @example
+ *
+ * const paymentRequest = createMockPaymentRequest({ canMakePayment: null });
+ */
+export const createMockPaymentRequest = ({
+  canMakePayment = { applePay: false, googlePay: true },
+}: MockPaymentRequestOptions = {}) => {
+  const state: { current: MockPaymentRequestState } = {
+    current: { handlers: {}, showing: false, updates: [] },
+  };
+
+  const mock = {
+    abort: async () => {
+      state.current = { ...state.current, showing: false };
+
+      return Promise.resolve();
+    },
+    canMakePayment: async () => Promise.resolve(canMakePayment),
+    isShowing: () => state.current.showing,
+    off: (eventName: string, handler?: Handler) => {
+      state.current = {
+        ...state.current,
+        handlers: {
+          ...state.current.handlers,
+          [eventName]: !handler
+            ? []
+            : state.current.handlers[eventName]?.filter(
+                (other) => other !== handler
+              ),
+        },
+      };
+
+      return mock;
+    },
+    on: (eventName: string, handler: Handler) => {
+      state.current = {
+        ...state.current,
+        handlers: {
+          ...state.current.handlers,
+          [eventName]: [...(state.current.handlers[eventName] ?? []), handler],
+        },
+      };
+
+      return mock;
+    },
+    once: (eventName: string, handler: Handler) => {
+      const onceHandler: Handler = (event) => {
+        mock.off(eventName, onceHandler);
+
+        return handler(event);
+      };
+
+      return mock.on(eventName, onceHandler);
+    },
+    show: () => {
+      state.current = { ...state.current, showing: true };
+    },
+    update: (options: PaymentRequestUpdateOptions) => {
+      if (state.current.showing) {
+        throw new Error(
+          "You cannot update Payment Request options while the payment sheet is showing."
+        );
+      }
+
+      state.current = {
+        ...state.current,
+        updates: [...state.current.updates, options],
+      };
+    },
+  };
+  // The overloads of on/once/off can't be implemented by a single function
+  const paymentRequest = mock as unknown as PaymentRequest;
+
+  mockStates.set(paymentRequest, state);
+
+  return paymentRequest;
+};
+
+const getMockState = (paymentRequest: PaymentRequest) => {
+  const state = mockStates.get(paymentRequest);
+
+  if (!state) {
+    throw new Error(
+      "Only a paymentRequest from createMockPaymentRequest or createMockStripe can be simulated"
+    );
+  }
+
+  return state;
+};
+
+const emit = (
+  paymentRequest: PaymentRequest,
+  eventName: string,
+  event?: unknown
+) => {
+  const handlers = getMockState(paymentRequest).current.handlers[eventName];
+
+  if (!handlers?.length) {
+    throw new Error(`The paymentRequest isn't listening to ${eventName}`);
+  }
+
+  handlers.map((handler) => handler(event));
+};
+
+/**
+ * Whether the sheet is showing and everything the paymentRequest was updated with, oldest first
+ */
+export const getMockPaymentRequestState = (paymentRequest: PaymentRequest) => {
+  const { showing, updates } = getMockState(paymentRequest).current;
+
+  return { showing, updates };
+};
+
+/**
+ * Resolves with what the event was updated with
+ */
+const simulateShippingEvent = async (
+  paymentRequest: PaymentRequest,
+  eventName: "shippingaddresschange" | "shippingoptionchange",
+  value:
+    | { shippingAddress: PaymentRequestShippingAddress }
+    | { shippingOption: PaymentRequestShippingOption }
+) =>
+  new Promise<PaymentRequestUpdateDetails>((resolve) =>
+    emit(paymentRequest, eventName, { ...value, updateWith: resolve })
+  );
+
+export const simulateShippingAddressChange = async (
+  paymentRequest: PaymentRequest,
+  shippingAddress: PaymentRequestShippingAddress = { country: "US" }
+) =>
+  simulateShippingEvent(paymentRequest, "shippingaddresschange", {
+    shippingAddress,
+  });
+
+export const simulateShippingOptionChange = async (
+  paymentRequest: PaymentRequest,
+  shippingOption: PaymentRequestShippingOption
+) =>
+  simulateShippingEvent(paymentRequest, "shippingoptionchange", {
+    shippingOption,
+  });
+
+type MockPaymentValues = Partial<Omit<PaymentRequestEvent, "complete">>;
+
+/**
+ * Resolves with what the event was completed with. The sheet closes once it's completed, like a wallet's would.
+ */
+const simulatePaymentEvent = async (
+  paymentRequest: PaymentRequest,
+  eventName: "paymentmethod" | "source" | "token",
+  value: MockPaymentValues &
+    ({ paymentMethod: PaymentMethod } | { source: Source } | { token: Token })
+) =>
+  new Promise<PaymentRequestCompleteStatus>((resolve) =>
+    emit(paymentRequest, eventName, {
+      methodName: "https://google.com/pay",
+      walletName: "googlePay",
+      ...value,
+      complete: (status: PaymentRequestCompleteStatus) => {
+        const state = getMockState(paymentRequest);
+
+        state.current = { ...state.current, showing: false };
+        resolve(status);
+      },
+    })
+  );
+
+// Only the ids are filled in, tests can pass complete objects when they need more
+const mockPaymentMethod: Partial<PaymentMethod> = { id: "pm_mock" };
+const mockSource: Partial<Source> = { id: "src_mock" };
+const mockToken: Partial<Token> = { id: "tok_mock" };
+
+export const simulatePaymentMethod = async (
+  paymentRequest: PaymentRequest,
+  {
+    paymentMethod = mockPaymentMethod as PaymentMethod,
+    ...value
+  }: MockPaymentValues & { paymentMethod?: PaymentMethod } = {}
+) =>
+  simulatePaymentEvent(paymentRequest, "paymentmethod", {
+    ...value,
+    paymentMethod,
+  });
+
+export const simulateSource = async (
+  paymentRequest: PaymentRequest,
+  {
+    source = mockSource as Source,
+    ...value
+  }: MockPaymentValues & { source?: Source } = {}
+) => simulatePaymentEvent(paymentRequest, "source", { ...value, source });
+
+export const simulateToken = async (
+  paymentRequest: PaymentRequest,
+  {
+    token = mockToken as Token,
+    ...value
+  }: MockPaymentValues & { token?: Token } = {}
+) => simulatePaymentEvent(paymentRequest, "token", { ...value, token });
+
+/**
+ * Closes the sheet like the customer dismissing it
+ */
+export const simulateCancel = (paymentRequest: PaymentRequest) => {
+  const state = getMockState(paymentRequest);
+
+  state.current = { ...state.current, showing: false };
+  emit(paymentRequest, "cancel");
+};
+
+type ConfirmCardPaymentResult = Awaited<
+  ReturnType<Stripe["confirmCardPayment"]>
+>;
+
+export interface MockStripeOptions extends MockPaymentRequestOptions {
+  /**
+   * What confirmCardPayment resolves with. Defaults to a succeeded PaymentIntent.
+   * A list is a result for each call in turn, the last one repeating (ie requires_action then succeeded), and a function is called with confirmCardPayment's arguments.
+   */
+  confirmCardPayment?:
+    | ConfirmCardPaymentResult
+    | ConfirmCardPaymentResult[]
+    | ((
+        ...args: Parameters<Stripe["confirmCardPayment"]>
+      ) => MaybePromise<ConfirmCardPaymentResult>);
+}
+
+const mockPaymentIntent: Partial<PaymentIntent> = {
+  id: "pi_mock",
+  status: "succeeded",
+};
+
+/**
+ * A Stripe whose paymentRequest() creates mock paymentRequests, for usePaymentRequest, PaymentRequestProvider or createPaymentRequestController
+ *
+ * @example
+ *
+ * const stripe = createMockStripe();
+ * const { result } = renderHook(() => usePaymentRequest(stripe, options));
+ *
+ * await simulatePaymentMethod(result.current[0]);
+ */
+export const createMockStripe = ({
+  confirmCardPayment = { paymentIntent: mockPaymentIntent as PaymentIntent },
+  ...paymentRequestOptions
+}: MockStripeOptions = {}) => {
+  const calls = { current: 0 };
+
+  const mock = {
+    confirmCardPayment: async (
+      ...args: Parameters<Stripe["confirmCardPayment"]>
+    ) => {
+      const call = calls.current;
+
+      calls.current = call + 1;
+
+      if (typeof confirmCardPayment === "function") {
+        return confirmCardPayment(...args);
+      }
+
+      return Array.isArray(confirmCardPayment)
+        ? confirmCardPayment[Math.min(call, confirmCardPayment.length - 1)]
+        : confirmCardPayment;
+    },
+    paymentRequest: () => createMockPaymentRequest(paymentRequestOptions),
+  };
+
+  // Only what this library uses is implemented
+  return mock as unknown as Stripe;
+};
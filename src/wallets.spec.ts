@@ -0,0 +1,78 @@
+import { describe, expect, it } from "@jest/globals";
+
+import { getWalletAvailability, getWalletButtonLabel } from "./wallets";
+
+describe("getWalletAvailability", () => {
+  it("lists the available wallets in priority order", () => {
+    expect(
+      getWalletAvailability({ applePay: true, googlePay: true, link: false })
+    ).toStrictEqual({
+      availableWallets: ["applePay", "googlePay"],
+      isAvailable: true,
+      preferredWallet: "applePay",
+    });
+  });
+
+  it("prefers wallets in walletPriority", () => {
+    expect(
+      getWalletAvailability(
+        { applePay: true, googlePay: true, link: true },
+        { walletPriority: ["link", "googlePay"] }
+      )
+    ).toStrictEqual({
+      availableWallets: ["link", "googlePay", "applePay"],
+      isAvailable: true,
+      preferredWallet: "link",
+    });
+  });
+
+  it("leaves out disableWallets", () => {
+    expect(
+      getWalletAvailability(
+        { applePay: true, googlePay: true },
+        { disableWallets: ["applePay"] }
+      )
+    ).toHaveProperty("availableWallets", ["googlePay"]);
+  });
+
+  it("is a browserCard without any other wallet", () => {
+    expect(
+      getWalletAvailability({ applePay: false, googlePay: false })
+    ).toStrictEqual({
+      availableWallets: ["browserCard"],
+      isAvailable: true,
+      preferredWallet: "browserCard",
+    });
+    expect(
+      getWalletAvailability(
+        { applePay: false, googlePay: false },
+        { disableWallets: ["browserCard"] }
+      )
+    ).toHaveProperty("isAvailable", false);
+  });
+
+  it("is unavailable without a result", () => {
+    expect(getWalletAvailability(null)).toStrictEqual({
+      availableWallets: [],
+      isAvailable: false,
+      preferredWallet: undefined,
+    });
+  });
+});
+
+describe("getWalletButtonLabel", () => {
+  it("names the wallet and what the button does", () => {
+    expect(getWalletButtonLabel("applePay")).toBe("Buy with Apple Pay");
+    expect(getWalletButtonLabel("googlePay", "checkout")).toBe(
+      "Check out with Google Pay"
+    );
+    expect(getWalletButtonLabel("browserCard", "donate")).toBe(
+      "Donate with card"
+    );
+  });
+
+  it("only names the wallet when plain", () => {
+    expect(getWalletButtonLabel("link", "plain")).toBe("Link");
+    expect(getWalletButtonLabel("browserCard", "plain")).toBe("Card");
+  });
+});
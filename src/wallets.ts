@@ -0,0 +1,111 @@
+import { upperFirst } from "lodash/fp";
+
+import type {
+  CanMakePaymentResult,
+  PaymentRequestWallet,
+} from "@stripe/stripe-js";
+
+/**
+ * browserCard is a card saved in the browser, available when canMakePayment resolves without any other wallet
+ */
+export type Wallet = PaymentRequestWallet | "link";
+
+export const defaultWalletPriority: Wallet[] = [
+  "applePay",
+  "googlePay",
+  "link",
+  "browserCard",
+];
+
+export interface WalletAvailability {
+  /** In priority order */
+  availableWallets: Wallet[];
+  isAvailable: boolean;
+  /** The first of availableWallets, ie to render its branded button */
+  preferredWallet?: Wallet;
+}
+
+export interface WalletAvailabilityOptions {
+  /** Never available, same as the paymentRequest's option */
+  disableWallets?: Wallet[];
+  /** Wallets missing from it come after it, in the default priority */
+  walletPriority?: Wallet[];
+}
+
+/**
+ * Which wallets canMakePayment resolved with, instead of its raw booleans
+ *
+ * @example
+ *
+ * const { preferredWallet } = getWalletAvailability(canMakePayment.value, { walletPriority: ["googlePay"] });
+ */
+export const getWalletAvailability = (
+  canMakePayment: CanMakePaymentResult | null | undefined,
+  {
+    disableWallets = [],
+    walletPriority = defaultWalletPriority,
+  }: WalletAvailabilityOptions = {}
+): WalletAvailability => {
+  const available = (wallet: Wallet) =>
+    Boolean(canMakePayment) &&
+    !disableWallets.includes(wallet) &&
+    (wallet === "browserCard"
+      ? defaultWalletPriority.every(
+          (other) => other === "browserCard" || !canMakePayment?.[other]
+        )
+      : Boolean(canMakePayment?.[wallet]));
+
+  const availableWallets = [
+    ...walletPriority,
+    ...defaultWalletPriority.filter(
+      (wallet) => !walletPriority.includes(wallet)
+    ),
+  ].filter(available);
+
+  return {
+    availableWallets,
+    isAvailable: availableWallets.length > 0,
+    preferredWallet: availableWallets[0],
+  };
+};
+
+/**
+ * What the button does, same as Apple Pay's button types
+ */
+export type WalletButtonType =
+  | "book"
+  | "buy"
+  | "checkout"
+  | "donate"
+  | "order"
+  | "pay"
+  | "plain"
+  | "subscribe";
+
+const walletNames: Record<Wallet, string> = {
+  applePay: "Apple Pay",
+  browserCard: "card",
+  googlePay: "Google Pay",
+  link: "Link",
+};
+
+const buttonTypeVerbs: Record<Exclude<WalletButtonType, "plain">, string> = {
+  book: "Book",
+  buy: "Buy",
+  checkout: "Check out",
+  donate: "Donate",
+  order: "Order",
+  pay: "Pay",
+  subscribe: "Subscribe",
+};
+
+/**
+ * The accessible name of a wallet's button, ie "Buy with Apple Pay"
+ */
+export const getWalletButtonLabel = (
+  wallet: Wallet,
+  buttonType: WalletButtonType = "buy"
+) =>
+  buttonType === "plain"
+    ? upperFirst(walletNames[wallet])
+    : `${buttonTypeVerbs[buttonType]} with ${walletNames[wallet]}`;